@@ -0,0 +1,100 @@
+import * as THREE from 'three';
+
+// Every file the game needs, loaded once before the first game starts
+const ASSET_MANIFEST = {
+  dirt: { url: './assets/dirt.jpg' },
+  dirtNormal: { url: './assets/dirt_normal.png' },
+  dirtDisplacement: { url: './assets/dirt_displacement.png' },
+  music: { url: './assets/bgmusic_1.mp3' }
+} as const;
+
+// Size of the generated fallback textures (pixels per side)
+const FALLBACK_TEXTURE_SIZE = 128;
+
+// Loaded assets, shared by every game (games must not dispose them)
+export interface GameAssets {
+  dirt: THREE.Texture;
+  dirtNormal: THREE.Texture;
+  dirtDisplacement: THREE.Texture;
+  musicUrl: string | null; // Object URL of the music, null if it failed to load (the game stays silent)
+  failed: string[]; // URLs that failed to load and were replaced by fallbacks
+}
+
+/**
+ * Load everything in the asset manifest through one LoadingManager, reporting progress as a fraction (0-1).
+ * Never rejects: assets that fail to load are replaced by procedural fallbacks.
+ */
+export function loadAssets(onProgress: (fraction: number) => void): Promise<GameAssets> {
+  return new Promise(resolve => {
+    const manager = new THREE.LoadingManager();
+    const textureLoader = new THREE.TextureLoader(manager);
+    const fileLoader = new THREE.FileLoader(manager);
+    fileLoader.setResponseType('blob');
+
+    const assets: GameAssets = {
+      dirt: createDirtTexture(),
+      dirtNormal: createFlatTexture(128, 128, 255), // Straight up in tangent space
+      dirtDisplacement: createFlatTexture(128, 128, 128), // Mid grey, no displacement with the planet's bias
+      musicUrl: null,
+      failed: []
+    };
+
+    const onError = (url: string) => (error: unknown) => {
+      console.error(`Error loading ${url}, using a fallback:`, error);
+      assets.failed.push(url);
+    };
+
+    const { dirt, dirtNormal, dirtDisplacement, music } = ASSET_MANIFEST;
+    textureLoader.load(dirt.url, texture => { assets.dirt = texture; }, undefined, onError(dirt.url));
+    textureLoader.load(dirtNormal.url, texture => { assets.dirtNormal = texture; }, undefined, onError(dirtNormal.url));
+    textureLoader.load(
+      dirtDisplacement.url, texture => { assets.dirtDisplacement = texture; }, undefined, onError(dirtDisplacement.url)
+    );
+    // The typings don't know about the blob response type, check what actually arrived
+    fileLoader.load(music.url, data => {
+      if (data instanceof Blob) {
+        assets.musicUrl = URL.createObjectURL(data);
+      } else {
+        onError(music.url)(new Error('Expected the music as a blob'));
+      }
+    }, undefined, onError(music.url));
+
+    manager.onProgress = (_url, loaded, total) => onProgress(loaded / total);
+    manager.onLoad = () => {
+      console.log(`Assets loaded${assets.failed.length > 0 ? ` (${assets.failed.length} replaced by fallbacks)` : ''}`);
+      resolve(assets);
+    };
+  });
+}
+
+// Brown speckled noise standing in for the dirt texture
+function createDirtTexture(): THREE.Texture {
+  const size = FALLBACK_TEXTURE_SIZE;
+  const data = new Uint8Array(size * size * 4);
+  for (let i = 0; i < size * size; i++) {
+    const shade = 0.75 + Math.random() * 0.5;
+    data[i * 4] = Math.min(255, 120 * shade);
+    data[i * 4 + 1] = Math.min(255, 90 * shade);
+    data[i * 4 + 2] = Math.min(255, 60 * shade);
+    data[i * 4 + 3] = 255;
+  }
+  return createDataTexture(data);
+}
+
+// A texture of a single color, for maps that have a neutral value
+function createFlatTexture(r: number, g: number, b: number): THREE.Texture {
+  const size = FALLBACK_TEXTURE_SIZE;
+  const data = new Uint8Array(size * size * 4);
+  for (let i = 0; i < size * size; i++) {
+    data.set([r, g, b, 255], i * 4);
+  }
+  return createDataTexture(data);
+}
+
+function createDataTexture(data: Uint8Array): THREE.Texture {
+  const texture = new THREE.DataTexture(data, FALLBACK_TEXTURE_SIZE, FALLBACK_TEXTURE_SIZE);
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+  texture.needsUpdate = true;
+  return texture;
+}
@@ -0,0 +1,169 @@
+import * as THREE from 'three';
+import { PerlinNoise } from './utils/noise';
+
+export type BiomeId = 'ocean' | 'beach' | 'desert' | 'grassland' | 'forest' | 'mountain' | 'snow';
+
+export interface Biome {
+  id: BiomeId;
+  name: string;
+  color: THREE.Color; // Vertex color while barren
+  visitedColor: THREE.Color; // Vertex color once covered
+  textureBlend: number; // How strongly the ground texture shows through the color (0 = flat color, 1 = full texture)
+  fertilityMultiplier: number; // Fertility a covered vertex reaches, 0 means nothing grows and it doesn't count for coverage
+  passesToCover: number; // Times the player has to pass over a vertex before it is covered
+  grassHeight: number; // Blade height multiplier
+  grassTint: THREE.Color; // Multiplied into the blade colors
+}
+
+// All biomes, the index in this list is what WorldSphere stores per vertex
+export const BIOME_LIST: Biome[] = [
+  {
+    id: 'ocean',
+    name: 'Ocean',
+    color: new THREE.Color(0x2a5d8f),
+    visitedColor: new THREE.Color(0x2a5d8f),
+    textureBlend: 0.2,
+    fertilityMultiplier: 0, // Water can't grow grass
+    passesToCover: 1,
+    grassHeight: 0,
+    grassTint: new THREE.Color(1, 1, 1)
+  },
+  {
+    id: 'beach',
+    name: 'Beach',
+    color: new THREE.Color(0xe8d8a8),
+    visitedColor: new THREE.Color(0xb9c97a),
+    textureBlend: 0.3,
+    fertilityMultiplier: 0.4,
+    passesToCover: 1,
+    grassHeight: 0.6,
+    grassTint: new THREE.Color(1.2, 1.1, 0.7)
+  },
+  {
+    id: 'desert',
+    name: 'Desert',
+    color: new THREE.Color(0xd9b56c),
+    visitedColor: new THREE.Color(0xa8b35a),
+    textureBlend: 0.4,
+    fertilityMultiplier: 0.25, // Sparse grass
+    passesToCover: 1,
+    grassHeight: 0.5,
+    grassTint: new THREE.Color(1.3, 1.1, 0.6)
+  },
+  {
+    id: 'grassland',
+    name: 'Grassland',
+    color: new THREE.Color(0xffffff), // The plain dirt texture
+    visitedColor: new THREE.Color(0x00ff00),
+    textureBlend: 1,
+    fertilityMultiplier: 1,
+    passesToCover: 1,
+    grassHeight: 1,
+    grassTint: new THREE.Color(1, 1, 1)
+  },
+  {
+    id: 'forest',
+    name: 'Forest',
+    color: new THREE.Color(0xc8d8b0),
+    visitedColor: new THREE.Color(0x00c000),
+    textureBlend: 1,
+    fertilityMultiplier: 1,
+    passesToCover: 1,
+    grassHeight: 1.4,
+    grassTint: new THREE.Color(0.7, 1, 0.7)
+  },
+  {
+    id: 'mountain',
+    name: 'Mountain',
+    color: new THREE.Color(0x9a9490),
+    visitedColor: new THREE.Color(0x6fa05a),
+    textureBlend: 0.6,
+    fertilityMultiplier: 0.5,
+    passesToCover: 2,
+    grassHeight: 0.7,
+    grassTint: new THREE.Color(0.9, 1, 0.9)
+  },
+  {
+    id: 'snow',
+    name: 'Snow',
+    color: new THREE.Color(0xf4f8ff),
+    visitedColor: new THREE.Color(0x9fd8a0),
+    textureBlend: 0.15,
+    fertilityMultiplier: 0.6,
+    passesToCover: 3, // Snow caps need several passes
+    grassHeight: 0.6,
+    grassTint: new THREE.Color(0.8, 1, 0.9)
+  }
+];
+
+export function getBiomeIndex(id: BiomeId): number {
+  return BIOME_LIST.findIndex(biome => biome.id === id);
+}
+
+// Share of the surface below sea level unless the planet asks for another
+export const DEFAULT_SEA_FRACTION = 0.2;
+
+// Shares of the surface below the other elevation thresholds
+const BEACH_BAND = 0.04; // A thin band just above the water
+const MOUNTAIN_FRACTION = 0.88; // Highest 12% is mountains
+const PEAK_FRACTION = 0.97; // Highest 3% is snow-capped peaks
+
+// Moisture below DRY is desert, above WET is forest
+const DRY_MOISTURE = 0.42;
+const WET_MOISTURE = 0.58;
+
+// Absolute latitude (sine) where the polar snow caps start, shifted by moisture so the edge isn't a perfect circle
+const POLAR_LATITUDE = 0.88;
+
+/**
+ * Decides the biome of each point on the planet from its elevation, a moisture noise field and its latitude.
+ * Elevation thresholds are picked from the planet's own elevations, so every seed gets similar amounts of each biome.
+ */
+export class BiomeClassifier {
+  private moistureNoise: PerlinNoise;
+  private moistureScale: number = 3; // Lower than the terrain noise scale, for broad climate zones
+  private seaLevel: number;
+  private beachLevel: number;
+  private mountainLevel: number;
+  private peakLevel: number;
+
+  // elevations are the terrain displacements of all vertices, seaFraction the share of them under water
+  constructor(seed: number, elevations: ArrayLike<number>, seaFraction: number = DEFAULT_SEA_FRACTION) {
+    this.moistureNoise = new PerlinNoise(seed);
+
+    const sorted = Float32Array.from(elevations).sort();
+    const quantile = (fraction: number) => sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+    // No water at all below the lowest point
+    seaFraction = THREE.MathUtils.clamp(seaFraction, 0, 1);
+    this.seaLevel = seaFraction > 0 ? quantile(seaFraction) : -Infinity;
+    this.beachLevel = quantile(seaFraction + BEACH_BAND);
+    this.mountainLevel = quantile(MOUNTAIN_FRACTION);
+    this.peakLevel = quantile(PEAK_FRACTION);
+  }
+
+  // Terrain displacement of the water surface, -Infinity on planets without water
+  getSeaLevel(): number {
+    return this.seaLevel;
+  }
+
+  // Classify a point given its unit direction from the center and its terrain displacement
+  classify(direction: THREE.Vector3, elevation: number): BiomeId {
+    if (elevation < this.seaLevel) return 'ocean';
+
+    const moisture = this.moistureNoise.octaveNoise(
+      direction.x * this.moistureScale,
+      direction.y * this.moistureScale,
+      direction.z * this.moistureScale,
+      3, // octaves
+      0.5 // persistence
+    );
+
+    if (elevation >= this.peakLevel) return 'snow';
+    if (Math.abs(direction.y) > POLAR_LATITUDE + (moisture - 0.5) * 0.1) return 'snow';
+    if (elevation < this.beachLevel) return 'beach';
+    if (elevation >= this.mountainLevel) return 'mountain';
+    if (moisture < DRY_MOISTURE) return 'desert';
+    if (moisture > WET_MOISTURE) return 'forest';
+    return 'grassland';
+  }
+}
@@ -0,0 +1,198 @@
+import * as THREE from 'three';
+import { InputManager } from './inputManager';
+import { Player } from './player';
+
+export type CameraMode = 'chase' | 'topDown' | 'overview';
+
+// Camera modes in the order the camera mode key cycles through them
+export const CAMERA_MODES: Array<{ id: CameraMode; name: string }> = [
+  { id: 'chase', name: 'Chase' },
+  { id: 'topDown', name: 'Top-down' },
+  { id: 'overview', name: 'Planet overview' }
+];
+
+// Seconds a switch between camera modes takes
+const TRANSITION_TIME = 0.8;
+
+// Radians turned per pixel dragged, and per second with a key or stick held
+const DRAG_TURN_SPEED = 0.005;
+const HELD_TURN_SPEED = 2;
+
+// Zoom factor per wheel pixel and per second with a zoom key held (exponential, so it feels even at any distance)
+const WHEEL_ZOOM_SPEED = 0.001;
+const HELD_ZOOM_SPEED = 1.5;
+
+// How quickly the distance follows the zoom target (per second)
+const ZOOM_FOLLOW_RATE = 10;
+
+// Chase camera pitch range in radians above the horizon
+const MIN_CHASE_PITCH = 0.05;
+const MAX_CHASE_PITCH = 1.4;
+
+// Distance to the target (player or planet center) for each mode
+const ZOOM_LIMITS: Record<CameraMode, { initial: number; min: number; max: number }> = {
+  chase: { initial: Math.sqrt(29), min: 3, max: 25 }, // Initial distance of the old fixed (0, 2, -5) offset
+  topDown: { initial: 15, min: 6, max: 60 },
+  overview: { initial: 110, min: 60, max: 250 }
+};
+
+/**
+ * Places the camera for the selected mode: behind the player, above the player, or orbiting the whole planet.
+ * Chase and top-down follow the player's heading, turning the camera turns the player.
+ */
+export class CameraController {
+  private camera: THREE.PerspectiveCamera;
+  private mode: CameraMode = 'chase';
+  private chasePitch: number = Math.atan2(2, 5); // Angle of the old fixed offset
+  private overviewRotation: THREE.Quaternion = new THREE.Quaternion(); // Orientation of the planet overview orbit
+  private distances: Record<CameraMode, number>; // Current (smoothed) distance per mode
+  private targetDistances: Record<CameraMode, number>; // Distance per mode the zoom is heading for
+  private alignHeading: boolean = true; // Whether the overview keeps the player heading screen up, off for tank steering
+  private transition: number = 1; // 0 right after a mode switch, 1 once the camera reached the new mode
+  private transitionStart = { position: new THREE.Vector3(), quaternion: new THREE.Quaternion() };
+
+  constructor(camera: THREE.PerspectiveCamera) {
+    this.camera = camera;
+    this.distances = { chase: 0, topDown: 0, overview: 0 };
+    this.targetDistances = { chase: 0, topDown: 0, overview: 0 };
+    CAMERA_MODES.forEach(({ id }) => {
+      this.distances[id] = ZOOM_LIMITS[id].initial;
+      this.targetDistances[id] = ZOOM_LIMITS[id].initial;
+    });
+  }
+
+  getMode(): CameraMode {
+    return this.mode;
+  }
+
+  getModeName(): string {
+    return CAMERA_MODES.find(mode => mode.id === this.mode)!.name;
+  }
+
+  // Switch mode, the camera glides from where it is now to the new view
+  setMode(mode: CameraMode, player: Player): void {
+    if (mode === this.mode) return;
+    this.transitionStart.position.copy(this.camera.position);
+    this.transitionStart.quaternion.copy(this.camera.quaternion);
+    this.transition = 0;
+
+    // The overview starts above the player, looking at the planet in the same orientation as the camera
+    if (mode === 'overview') {
+      const up = player.getPosition().normalize();
+      const matrix = new THREE.Matrix4().lookAt(up, new THREE.Vector3(), player.getHeading());
+      this.overviewRotation.setFromRotationMatrix(matrix);
+    }
+
+    this.mode = mode;
+  }
+
+  // Tank steering turns the heading itself, so the overview must not keep resetting it to screen up
+  setAlignHeading(align: boolean): void {
+    this.alignHeading = align;
+  }
+
+  nextMode(player: Player): void {
+    const index = CAMERA_MODES.findIndex(mode => mode.id === this.mode);
+    this.setMode(CAMERA_MODES[(index + 1) % CAMERA_MODES.length].id, player);
+  }
+
+  // Apply look and zoom input, then move the camera for this frame
+  update(player: Player, input: InputManager, dt: number): void {
+    this.applyLook(input.consumeLookDelta(), input.getLookVector(), player, dt);
+    this.applyZoom(input.consumeZoomDelta(), input.getZoomInput(), dt);
+
+    // The overview camera turns the player so screen up stays forward and movement stays intuitive
+    if (this.mode === 'overview' && this.alignHeading) {
+      const screenUp = new THREE.Vector3(0, 1, 0).applyQuaternion(this.overviewRotation);
+      if (Math.abs(screenUp.dot(player.getPosition().normalize())) < 0.99) {
+        player.setHeading(screenUp);
+      }
+    }
+
+    // Follow the rendered (interpolated) player, with the heading carried over to it
+    const playerPosition = player.getMesh().position;
+    const target = this.getTargetPose(playerPosition, player.getHeadingAt(playerPosition));
+
+    if (this.transition >= 1) {
+      this.camera.position.copy(target.position);
+      this.camera.quaternion.copy(target.quaternion);
+    } else {
+      this.transition = Math.min(1, this.transition + dt / TRANSITION_TIME);
+      const t = THREE.MathUtils.smootherstep(this.transition, 0, 1);
+
+      // Swing around the planet center instead of cutting straight through it
+      const from = this.transitionStart.position;
+      const swing = new THREE.Quaternion()
+        .setFromUnitVectors(from.clone().normalize(), target.position.clone().normalize());
+      const direction = from.clone().normalize().applyQuaternion(new THREE.Quaternion().slerp(swing, t));
+      const length = THREE.MathUtils.lerp(from.length(), target.position.length(), t);
+      this.camera.position.copy(direction.multiplyScalar(length));
+      this.camera.quaternion.slerpQuaternions(this.transitionStart.quaternion, target.quaternion, t);
+    }
+
+    this.camera.up.copy(target.up);
+  }
+
+  // Turn the view: around the player in chase and top-down, around the planet in the overview
+  private applyLook(dragPixels: THREE.Vector2, held: THREE.Vector2, player: Player, dt: number): void {
+    // Dragging grabs the world (drag right turns the view left), held input turns the view directly
+    const yaw = -dragPixels.x * DRAG_TURN_SPEED + held.x * HELD_TURN_SPEED * dt;
+    const pitch = dragPixels.y * DRAG_TURN_SPEED + held.y * HELD_TURN_SPEED * dt;
+
+    if (this.mode === 'overview') {
+      this.overviewRotation
+        .multiply(new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), yaw))
+        .multiply(new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), -pitch));
+      return;
+    }
+
+    player.turn(yaw);
+    if (this.mode === 'chase') {
+      this.chasePitch = THREE.MathUtils.clamp(this.chasePitch + pitch, MIN_CHASE_PITCH, MAX_CHASE_PITCH);
+    }
+  }
+
+  private applyZoom(wheelPixels: number, held: number, dt: number): void {
+    const limits = ZOOM_LIMITS[this.mode];
+    const factor = Math.exp(wheelPixels * WHEEL_ZOOM_SPEED - held * HELD_ZOOM_SPEED * dt);
+    this.targetDistances[this.mode] = THREE.MathUtils.clamp(
+      this.targetDistances[this.mode] * factor, limits.min, limits.max
+    );
+
+    const distance = this.distances[this.mode];
+    this.distances[this.mode] = distance +
+      (this.targetDistances[this.mode] - distance) * (1 - Math.exp(-ZOOM_FOLLOW_RATE * dt));
+  }
+
+  // Where the current mode wants the camera, and which way is up on screen
+  private getTargetPose(playerPosition: THREE.Vector3, heading: THREE.Vector3) {
+    const up = playerPosition.clone().normalize();
+    const distance = this.distances[this.mode];
+    const position = new THREE.Vector3();
+    const lookTarget = new THREE.Vector3();
+    const screenUp = new THREE.Vector3();
+
+    if (this.mode === 'chase') {
+      // Behind and above the player, looking along the heading
+      position.copy(playerPosition)
+        .addScaledVector(heading, -Math.cos(this.chasePitch) * distance)
+        .addScaledVector(up, Math.sin(this.chasePitch) * distance);
+      lookTarget.copy(playerPosition);
+      screenUp.copy(up);
+    } else if (this.mode === 'topDown') {
+      // Straight above the player with the heading pointing up on screen
+      position.copy(playerPosition).addScaledVector(up, distance);
+      lookTarget.copy(playerPosition);
+      screenUp.copy(heading);
+    } else {
+      // Orbiting the planet center
+      position.set(0, 0, distance).applyQuaternion(this.overviewRotation);
+      screenUp.set(0, 1, 0).applyQuaternion(this.overviewRotation);
+    }
+
+    const quaternion = new THREE.Quaternion().setFromRotationMatrix(
+      new THREE.Matrix4().lookAt(position, lookTarget, screenUp)
+    );
+    return { position, quaternion, up: screenUp };
+  }
+}
@@ -1,23 +1,111 @@
 import * as THREE from 'three';
 import { Player } from './player';
-import { WorldSphere } from './sphere';
+import { PlanetMeshType, WorldSphere } from './sphere';
 import { GrassSystem } from './grassSystem';
+import { randomSeed } from './utils/random';
+import { SaveData, clearSave, saveGame } from './saveGame';
+import { PauseMenu } from './pauseMenu';
+import { ResultsScreen } from './resultsScreen';
+import { GameMode, GameModeId, ModeScore, RoundState, createGameMode } from './gameModes';
+import { getEntries, recordRound } from './leaderboard';
+import { InputManager } from './inputManager';
+import { SteeringMode, loadSettings } from './settings';
+import { SettingsScreen } from './settingsScreen';
+import { CameraController } from './cameraController';
+import { Minimap } from './minimap';
+import { EventEmitter } from './utils/eventEmitter';
+import { GameAssets } from './assets';
+import { HazardSystem } from './hazards';
+
+// How often progress is written to localStorage (in seconds)
+const AUTOSAVE_INTERVAL = 10;
+
+// The simulation advances in fixed steps so it runs the same at any frame rate
+const FIXED_TIMESTEP = 1 / 60; // Seconds per simulation step
+const MAX_FRAME_TIME = 0.25; // Longest frame we catch up on, avoids a spiral of death after stalls
+
+// How fast left/right turn the heading with tank steering (radians per second at full deflection)
+const TANK_TURN_SPEED = 2.5;
+
+// Window over which the coverage rate is measured for the round statistics (in seconds)
+const COVERAGE_RATE_WINDOW = 5;
+
+// Options for creating a game
+export interface GameOptions {
+  assets: GameAssets; // Textures and music, loaded before the game starts
+  seed?: number; // World seed, random if not given
+  save?: SaveData | null; // Saved progress to resume (its seed, mode and mesh win over seed, mode and meshType)
+  mode?: GameModeId; // Game mode, Zen if not given
+  meshType?: PlanetMeshType; // Planet mesh, the one in the settings if not given
+  coverageGoals?: number[]; // Coverage goals in percent, defaults to the mode's goals
+}
+
+// Statistics for a finished round
+export interface RoundSummary {
+  seed: number;
+  modeId: GameModeId;
+  meshType: PlanetMeshType; // Planets of one seed differ between mesh types, so they have separate leaderboards
+  modeName: string;
+  title: string; // Headline for the results, decided by the mode
+  score: ModeScore;
+  coverage: number; // Final coverage in percent
+  elapsedTime: number; // Seconds taken
+  distanceTravelled: number;
+  peakCoverageRate: number; // Best coverage gain in percent per minute
+  goalTimes: Array<{ goal: number; time: number }>; // When each goal was reached (seconds)
+}
+
+// Events emitted by Game for whoever owns it (see index.ts)
+export type GameEvents = {
+  restart: undefined; // Player asked to restart the planet from scratch
+  quit: undefined; // Player asked to go back to the home screen
+  goalReached: { goal: number; coverage: number; elapsedTime: number }; // A coverage goal was passed
+  complete: RoundSummary; // The final coverage goal was reached
+};
 
 export class Game {
+  readonly events = new EventEmitter<GameEvents>();
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera; // Reverted to perspective camera
+  private cameraController: CameraController; // Chase, top-down and planet overview views
+  private cameraModeButton: HTMLButtonElement | null = null;
+  private minimap: Minimap; // Map of visited and barren areas
   private renderer: THREE.WebGLRenderer;
   private player: Player;
   private worldSphere: WorldSphere;
   private grassSystem!: GrassSystem; // Using definite assignment assertion
+  private hazards: HazardSystem | null = null; // Drought storms, in modes that have them
   private isRunning: boolean = false;
+  private isPaused: boolean = false;
+  private animationFrameId: number | null = null; // Pending requestAnimationFrame, cancelled on pause/stop
+  private mode: GameMode; // Decides the HUD, end condition and scoring of the round
+  private pauseMenu: PauseMenu;
+  private resultsScreen: ResultsScreen;
+  private settingsScreen: SettingsScreen;
   private sphereRadius: number = 40;
+  private seed: number; // World seed used to generate the planet
+  private clock: THREE.Clock = new THREE.Clock();
+  private elapsedTime: number = 0; // Seconds played on this planet, carried over from saves
+  private timeSinceAutosave: number = 0;
+  private accumulator: number = 0; // Frame time not yet consumed by fixed simulation steps
+  
+  // Goal and round statistics tracking
+  private coverageGoals: number[];
+  private nextGoalIndex: number = 0;
+  private goalTimes: Array<{ goal: number; time: number }> = [];
+  private isComplete: boolean = false;
+  private isAbandoned: boolean = false; // Restarted from the pause menu, the run is not saved on the way out
+  private coverageSamples: Array<{ time: number; coverage: number }> = []; // Recent coverage, for the rate
+  private peakCoverageRate: number = 0;
+  private goalToastTimeout: number | null = null;
   private coverageProgress: HTMLElement | null = null;
-  private keysPressed: { [key: string]: boolean } = {}; // Track which keys are pressed
+  private input: InputManager; // Keyboard, gamepad and touch controls
+  private steering: SteeringMode; // Whether left/right strafe or turn
   private backgroundCanvas: HTMLCanvasElement;
   private backgroundContext: CanvasRenderingContext2D | null;
   private backgroundTexture: THREE.CanvasTexture;
-  private backgroundMusic!: HTMLAudioElement; // For background music, using definite assignment assertion
+  private backgroundMusic: HTMLAudioElement | null = null; // For background music, null if it failed to load
+  private pendingMusicStart: (() => void) | null = null; // Click handler waiting to start music after autoplay was blocked
   
   // Day and night gradient colors
   private readonly dayColors = {
@@ -33,7 +121,12 @@ export class Game {
   // Interpolation region (in degrees)
   private readonly transitionAngle: number = 30; // 30 degrees transition region
 
-  constructor() {
+  constructor(options: GameOptions) {
+    const save = options.save ?? null;
+    this.seed = save ? save.seed : options.seed ?? randomSeed();
+    this.mode = createGameMode(save ? save.modeId : options.mode ?? 'zen', options.coverageGoals);
+    this.coverageGoals = [...(options.coverageGoals ?? this.mode.coverageGoals)].sort((a, b) => a - b);
+    
     // Create scene
     this.scene = new THREE.Scene();
     
@@ -56,6 +149,7 @@ export class Game {
     // Position camera to look down at the player
     this.camera.position.set(0, -5, this.sphereRadius + 5);
     this.camera.lookAt(0, 45, 0);
+    this.cameraController = new CameraController(this.camera);
 
     // Create renderer
     this.renderer = new THREE.WebGLRenderer({ antialias: true });
@@ -65,7 +159,14 @@ export class Game {
     document.body.appendChild(this.renderer.domElement);
 
     // Create world sphere with larger radius and high segment count for detailed noise
-    this.worldSphere = new WorldSphere(this.sphereRadius, 256, 32); // Increased segments for better noise detail
+    const settings = loadSettings();
+    const meshType = save ? save.meshType : options.meshType ?? settings.planetMesh;
+    this.worldSphere = new WorldSphere(this.sphereRadius, 256, 32, this.seed, meshType); // Increased segments for better noise detail
+    this.worldSphere.setGroundTextures({
+      map: options.assets.dirt,
+      normalMap: options.assets.dirtNormal,
+      displacementMap: options.assets.dirtDisplacement
+    });
     this.scene.add(this.worldSphere.getMesh());
 
     // Create player
@@ -78,7 +179,22 @@ export class Game {
     this.player.setPosition(0, 1, this.sphereRadius); // Slightly raise player for better visibility
 
     // Initialize grass system
-    this.grassSystem = new GrassSystem(this.scene, this.worldSphere.getMesh());
+    this.grassSystem = new GrassSystem(this.scene, this.worldSphere);
+    this.grassSystem.events.on('grassThinned', () => this.showGoalToast('So much grass! Thinning it out to keep up'));
+    this.grassSystem.events.on('budgetExhausted', () => this.showGoalToast('The planet can\'t hold any more grass'));
+    this.grassSystem.events.on('grassRestored', () => this.showGoalToast('There is room for thicker grass again'));
+    
+    // Drought storms wither covered ground in modes that have them, and in Zen if the player opted in
+    if (this.mode.hazards || (this.mode.id === 'zen' && settings.zenStorms)) {
+      this.hazards = new HazardSystem(this.scene, this.worldSphere, this.seed);
+      this.hazards.events.on('stormSpawned', () => this.showGoalToast('A drought storm is rising! Fly into it to douse it'));
+      this.hazards.events.on('stormDoused', () => this.showGoalToast('Storm doused'));
+    }
+    
+    // Resume saved progress, grass regrows from the restored vertex states on the first update
+    if (save) {
+      this.restoreProgress(save);
+    }
 
     // Now that player is initialized, set up the gradient background
     this.setupGradientBackground();
@@ -87,62 +203,210 @@ export class Game {
     this.setupCoverageUI();
 
     // Set up background music
-    this.setupBackgroundMusic();
+    this.setupBackgroundMusic(options.assets.musicUrl);
+
+    // Set up controls, pause requests toggle the pause menu
+    this.steering = settings.steering;
+    this.cameraController.setAlignHeading(this.steering !== 'tank');
+    this.minimap = new Minimap(this.worldSphere, settings.minimapHint);
+    this.input = new InputManager(settings.bindings, this.renderer.domElement);
+    this.input.events.on('press', action => {
+      if (this.isPaused) return;
+      if (action === 'cameraMode') {
+        this.nextCameraMode();
+      } else if (action === 'minimap') {
+        this.minimap.setVisible(!this.minimap.isVisible());
+      }
+    });
+    this.input.events.on('pause', () => {
+      // The settings screen handles its own keys and closes back to the pause menu
+      if (this.settingsScreen.isVisible()) return;
+      if (this.isPaused) {
+        this.resume();
+      } else {
+        this.pause();
+      }
+    });
+
+    // Set up pause menu and end-of-round results
+    this.pauseMenu = new PauseMenu({
+      onResume: () => this.resume(),
+      onRestart: () => this.abandon(),
+      onSettings: () => this.openSettings(),
+      onQuit: () => this.events.emit('quit', undefined)
+    });
+    this.settingsScreen = new SettingsScreen();
+    this.resultsScreen = new ResultsScreen({
+      onPlayAgain: () => this.events.emit('restart', undefined),
+      onQuit: () => this.events.emit('quit', undefined)
+    });
 
     // Handle window resize
-    window.addEventListener('resize', this.onWindowResize.bind(this));
+    window.addEventListener('resize', this.onWindowResize);
+    
+    // Save when the page is closed or reloaded
+    window.addEventListener('beforeunload', this.handleBeforeUnload);
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  getModeId(): GameModeId {
+    return this.mode.id;
+  }
+
+  getMeshType(): PlanetMeshType {
+    return this.worldSphere.getMeshType();
   }
 
   start(): void {
+    if (this.isRunning || this.isComplete) return;
     this.isRunning = true;
-    this.animate();
+    this.isPaused = false;
+    this.clock.start();
     
-    // Set up keyboard controls
-    window.addEventListener('keydown', this.handleKeyDown.bind(this));
-    window.addEventListener('keyup', this.handleKeyUp.bind(this));
+    // Set up controls
+    this.input.attach();
+    
+    this.animate();
   }
 
   stop(): void {
+    if (!this.isRunning) return;
     this.isRunning = false;
+    this.isPaused = false;
+    this.cancelAnimationFrame();
+    
+    // Keep progress up to date before shutting down, unless the run is being thrown away
+    if (!this.isAbandoned) {
+      this.saveProgress();
+    }
     
-    // Remove event listeners
-    window.removeEventListener('keydown', this.handleKeyDown.bind(this));
-    window.removeEventListener('keyup', this.handleKeyUp.bind(this));
+    // Stop listening to controls
+    this.input.detach();
     
     // Stop background music
+    this.backgroundMusic?.pause();
+  }
+
+  pause(): void {
+    if (!this.isRunning || this.isPaused) return;
+    this.isPaused = true;
+    this.cancelAnimationFrame();
+    
+    // Forget held keys so the player doesn't keep moving after resuming
+    this.input.reset();
+    this.backgroundMusic?.pause();
+    this.pauseMenu.show();
+  }
+
+  resume(): void {
+    if (!this.isRunning || !this.isPaused) return;
+    this.isPaused = false;
+    this.pauseMenu.hide();
+    
+    // Discard the time spent paused
+    this.clock.getDelta();
+    this.accumulator = 0;
+    this.backgroundMusic?.play().catch((err: Error) => console.error("Failed to resume music:", err));
+    this.animate();
+  }
+
+  // Stop the game and release everything it created (scene, GPU resources, DOM and listeners)
+  dispose(): void {
+    this.stop();
+    this.events.clear();
+    
+    window.removeEventListener('resize', this.onWindowResize);
+    window.removeEventListener('beforeunload', this.handleBeforeUnload);
+    if (this.pendingMusicStart) {
+      document.removeEventListener('click', this.pendingMusicStart);
+      this.pendingMusicStart = null;
+    }
+    
+    // Release the music so the browser stops buffering it
     if (this.backgroundMusic) {
-      this.backgroundMusic.pause();
+      this.backgroundMusic.removeAttribute('src');
+      this.backgroundMusic.load();
     }
     
     // Clean up resources
+    this.input.dispose();
     this.grassSystem.dispose();
+    this.hazards?.dispose();
+    this.player.dispose();
+    this.worldSphere.dispose();
+    this.backgroundTexture.dispose();
+    this.scene.clear();
+    
+    // Remove DOM elements
+    if (this.goalToastTimeout !== null) {
+      window.clearTimeout(this.goalToastTimeout);
+    }
+    this.pauseMenu.dispose();
+    this.settingsScreen.dispose();
+    this.minimap.dispose();
+    this.resultsScreen.dispose();
+    document.getElementById('coverage-container')?.remove();
+    this.renderer.dispose();
+    this.renderer.domElement.remove();
+  }
+
+  // Swap the pause menu for the settings screen, new bindings apply right away
+  private openSettings(): void {
+    this.pauseMenu.hide();
+    this.settingsScreen.show(saved => {
+      if (saved) {
+        this.input.setBindings(saved.bindings);
+        this.steering = saved.steering;
+        this.cameraController.setAlignHeading(this.steering !== 'tank');
+        this.minimap.setShowHint(saved.minimapHint);
+      }
+      this.pauseMenu.show();
+    });
+  }
+
+  private cancelAnimationFrame(): void {
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
   }
 
   private animate(): void {
-    if (!this.isRunning) return;
+    if (!this.isRunning || this.isPaused) return;
     
-    requestAnimationFrame(this.animate.bind(this));
+    this.animationFrameId = requestAnimationFrame(() => this.animate());
 
-    this.updateMovement();
-    this.updateCamera();
-    this.updateGradientBackground();
+    // Autosave periodically
+    const frameTime = Math.min(this.clock.getDelta(), MAX_FRAME_TIME);
+    this.timeSinceAutosave += frameTime;
+    if (this.timeSinceAutosave >= AUTOSAVE_INTERVAL) {
+      this.saveProgress();
+    }
+
+    // Run as many fixed simulation steps as the elapsed frame time covers
+    this.accumulator += frameTime;
+    // (stopping early if the round ends during one of them)
+    while (this.accumulator >= FIXED_TIMESTEP && this.isRunning) {
+      this.fixedUpdate(FIXED_TIMESTEP);
+      this.accumulator -= FIXED_TIMESTEP;
+    }
     
-    // Update player and world
-    this.player.update(this.worldSphere.getMesh());
-    this.worldSphere.update(); // This is now a no-op but kept for compatibility
+    // Render the player between the last two simulation steps
+    this.player.interpolate(this.accumulator / FIXED_TIMESTEP);
     
-    // Mark area around player as visited and get coverage percentage
-    const coveragePercentage = this.worldSphere.markVisitedArea(
-      this.player.getMesh().position,
-      this.player.getColoringRadius()
-    );
+    this.cameraController.update(this.player, this.input, frameTime);
+    this.minimap.setHazards(this.hazards ? this.hazards.getStormDirections() : []);
+    this.minimap.update(this.player, frameTime);
+    this.updateGradientBackground();
     
     // Update coverage UI
-    this.updateCoverageUI(coveragePercentage);
+    this.updateCoverageUI(this.worldSphere.getCoveragePercentage());
     
-    // Update grass system with fertile vertices
-    const fertileVertices = this.worldSphere.getFertileVertices();
-    this.grassSystem.update(fertileVertices);
+    // Grow grass where the planet changed and animate it
+    this.grassSystem.update(frameTime, this.camera);
     
     // Update particles in scene
     const particles = this.player.getParticles();
@@ -156,92 +420,194 @@ export class Game {
     this.renderer.render(this.scene, this.camera);
   }
 
-  private handleKeyDown(event: KeyboardEvent): void {
-    const key = event.key.toLowerCase();
-    if (['w', 'a', 's', 'd'].includes(key)) {
-      this.keysPressed[key] = true;
+  // Advance the simulation by one fixed step of dt seconds
+  private fixedUpdate(dt: number): void {
+    // Play time advances with the simulation, so timers and scores match what was actually played
+    this.elapsedTime += dt;
+    this.updateMovement(dt);
+    
+    // Update player and world
+    this.player.update(this.worldSphere, dt);
+    this.worldSphere.update(dt);
+    
+    // Let storms wither covered ground, its grass goes with it as the planet reports the change
+    if (this.hazards) {
+      this.hazards.update(this.player.getPosition(), dt);
+    }
+    
+    // Mark area around player as visited
+    const coverage = this.worldSphere.markVisitedArea(
+      this.player.getPosition(),
+      this.player.getColoringRadius()
+    );
+    
+    this.updateRoundStats(coverage);
+    this.checkGoals(coverage);
+    
+    // Let the mode decide whether the round is over
+    if (!this.isComplete && this.mode.isRoundOver(this.getRoundState(coverage))) {
+      this.complete(coverage);
+    }
+  }
+
+  private getRoundState(coverage: number): RoundState {
+    return {
+      coverage,
+      elapsedTime: this.elapsedTime,
+      distanceTravelled: this.player.getDistanceTravelled()
+    };
+  }
+
+  // Sample coverage over time to track the best coverage rate
+  private updateRoundStats(coverage: number): void {
+    this.coverageSamples.push({ time: this.elapsedTime, coverage });
+    
+    // Drop samples older than the measuring window, but keep one at its start
+    while (this.coverageSamples.length > 2 && this.elapsedTime - this.coverageSamples[1].time >= COVERAGE_RATE_WINDOW) {
+      this.coverageSamples.shift();
+    }
+    
+    const oldest = this.coverageSamples[0];
+    const span = this.elapsedTime - oldest.time;
+    if (span >= COVERAGE_RATE_WINDOW) {
+      const ratePerMinute = (coverage - oldest.coverage) / span * 60;
+      this.peakCoverageRate = Math.max(this.peakCoverageRate, ratePerMinute);
+    }
+  }
+
+  // Announce goals as coverage passes them
+  private checkGoals(coverage: number): void {
+    while (this.nextGoalIndex < this.coverageGoals.length && coverage >= this.coverageGoals[this.nextGoalIndex]) {
+      const goal = this.coverageGoals[this.nextGoalIndex];
+      this.nextGoalIndex++;
+      this.goalTimes.push({ goal, time: this.elapsedTime });
+      this.events.emit('goalReached', { goal, coverage, elapsedTime: this.elapsedTime });
+      this.showGoalToast(`Goal reached: ${goal}%`);
     }
   }
 
-  private handleKeyUp(event: KeyboardEvent): void {
-    const key = event.key.toLowerCase();
-    if (['w', 'a', 's', 'd'].includes(key)) {
-      this.keysPressed[key] = false;
+  // End the round and show the results
+  private complete(coverage: number): void {
+    this.isComplete = true;
+    
+    // The planet is finished, so there is nothing left to continue
+    clearSave();
+    this.stop();
+    
+    const state = this.getRoundState(coverage);
+    const summary: RoundSummary = {
+      seed: this.seed,
+      modeId: this.mode.id,
+      meshType: this.worldSphere.getMeshType(),
+      modeName: this.mode.name,
+      title: this.mode.getResultTitle(state),
+      score: this.mode.getScore(state),
+      coverage,
+      elapsedTime: this.elapsedTime,
+      distanceTravelled: this.player.getDistanceTravelled(),
+      peakCoverageRate: this.peakCoverageRate,
+      goalTimes: [...this.goalTimes]
+    };
+    
+    // Record the round on the leaderboard for this seed, mode and planet mesh
+    const record = recordRound(summary);
+    this.resultsScreen.show(summary, record, getEntries(this.seed, this.mode.id, summary.meshType));
+    this.events.emit('complete', summary);
+  }
+
+  // Throw the run away and ask for a fresh one, its save would otherwise be offered by Continue
+  private abandon(): void {
+    this.isAbandoned = true;
+    clearSave();
+    this.events.emit('restart', undefined);
+  }
+
+  // Write the current planet, player and play time to localStorage
+  saveProgress(): void {
+    // A completed round is not saved, it can only be played again
+    if (this.isComplete) return;
+    
+    const position = this.player.getPosition();
+    const velocity = this.player.getVelocity();
+    const heading = this.player.getHeading();
+    
+    saveGame({
+      seed: this.seed,
+      modeId: this.mode.id,
+      meshType: this.worldSphere.getMeshType(),
+      vertexStates: this.worldSphere.exportVertexStates(),
+      playerPosition: [position.x, position.y, position.z],
+      playerVelocity: [velocity.x, velocity.y, velocity.z],
+      playerHeading: [heading.x, heading.y, heading.z],
+      elapsedTime: this.elapsedTime,
+      distanceTravelled: this.player.getDistanceTravelled(),
+      savedAt: Date.now()
+    });
+    this.timeSinceAutosave = 0;
+  }
+
+  private restoreProgress(save: SaveData): void {
+    if (!this.worldSphere.importVertexStates(save.vertexStates)) return;
+    
+    this.player.setPosition(...save.playerPosition);
+    this.player.setVelocity(...save.playerVelocity);
+    if (save.playerHeading) {
+      this.player.setHeading(new THREE.Vector3(...save.playerHeading));
+    }
+    this.elapsedTime = save.elapsedTime;
+    this.player.setDistanceTravelled(save.distanceTravelled);
+    
+    // Goals already passed before saving are not announced again
+    const coverage = this.worldSphere.getCoveragePercentage();
+    while (this.nextGoalIndex < this.coverageGoals.length - 1 && coverage >= this.coverageGoals[this.nextGoalIndex]) {
+      this.goalTimes.push({ goal: this.coverageGoals[this.nextGoalIndex], time: save.elapsedTime });
+      this.nextGoalIndex++;
     }
+    console.log(`Restored planet ${this.seed} with ${this.worldSphere.getCoveragePercentage().toFixed(2)}% coverage`);
   }
 
-  private updateMovement(): void {
-    const moveSpeed = 0.02; // Adjusted for player movement
+  private handleBeforeUnload = (): void => {
+    if (this.isRunning) {
+      this.saveProgress();
+    }
+  };
+
+  private updateMovement(dt: number): void {
+    const moveSpeed = 72; // Acceleration in units per second squared
+    const move = this.input.getMoveVector();
     
-    // Get player position and create tangent space for movement
-    const playerPos = this.player.getMesh().position.clone();
-    const playerDir = playerPos.clone().normalize();
+    // Tank steering turns the heading with left/right instead of strafing
+    if (this.steering === 'tank') {
+      this.player.turn(move.x * TANK_TURN_SPEED * dt);
+    }
     
-    // Create tangent vectors for movement on the sphere surface
-    // Forward direction (tangent to sphere in the direction the camera is facing)
-    const cameraDirection = new THREE.Vector3();
-    this.camera.getWorldDirection(cameraDirection);
+    // Get player position and create tangent space for movement
+    const playerDir = this.player.getPosition().normalize();
     
-    // Project camera direction onto tangent plane at player position
-    const forward = cameraDirection.clone().sub(
-      playerDir.clone().multiplyScalar(cameraDirection.dot(playerDir))
-    ).normalize();
+    // Forward direction (the player's heading, tangent to the sphere)
+    const forward = this.player.getHeading();
     
     // Right direction (perpendicular to forward and up)
     const right = new THREE.Vector3().crossVectors(forward, playerDir).normalize();
     
-    // Calculate movement force in tangent space
-    const force = new THREE.Vector3();
-    
-    if (this.keysPressed['w']) {
-      force.add(forward.clone().multiplyScalar(moveSpeed));
-    }
-    if (this.keysPressed['s']) {
-      force.add(forward.clone().multiplyScalar(-moveSpeed));
-    }
-    if (this.keysPressed['a']) {
-      force.add(right.clone().multiplyScalar(-moveSpeed));
-    }
-    if (this.keysPressed['d']) {
-      force.add(right.clone().multiplyScalar(moveSpeed));
-    }
+    // Calculate movement force in tangent space, scaled by how far the stick is pushed
+    const strafe = this.steering === 'tank' ? 0 : move.x;
+    const force = new THREE.Vector3()
+      .addScaledVector(forward, move.y * moveSpeed)
+      .addScaledVector(right, strafe * moveSpeed);
     
     // Apply force to player
     this.player.applyForce(force);
   }
   
-  private updateCamera(): void {
-    // Get player position and direction
-    const playerPos = this.player.getMesh().position.clone();
-    const playerDir = playerPos.clone().normalize();
-    
-    // Calculate camera position behind and above player
-    const cameraOffset = new THREE.Vector3(0, 2, -5); // Offset in local space
-    
-    // Create rotation matrix to align with player's orientation on sphere
-    const up = playerDir.clone(); // Up is the direction from center to player (normal to sphere)
-    const forward = new THREE.Vector3();
-    this.camera.getWorldDirection(forward);
-    
-    // Project forward onto tangent plane
-    forward.sub(up.clone().multiplyScalar(forward.dot(up))).normalize();
-    
-    // Right is perpendicular to forward and up
-    const right = new THREE.Vector3().crossVectors(forward, up).normalize();
-    
-    // Apply offset in player's local space
-    const worldOffset = new THREE.Vector3()
-      .addScaledVector(right, cameraOffset.x)
-      .addScaledVector(up, cameraOffset.y)
-      .addScaledVector(forward, cameraOffset.z);
-    
-    // Set camera position
-    this.camera.position.copy(playerPos.clone().add(worldOffset));
-    
-    // Look at player
-    this.camera.lookAt(playerPos);
+  private nextCameraMode(): void {
+    this.cameraController.nextMode(this.player);
+    if (this.cameraModeButton) {
+      this.cameraModeButton.textContent = `Camera: ${this.cameraController.getModeName()}`;
+    }
   }
 
+
   private setupCoverageUI(): void {
     // Create container
     const uiContainer = document.getElementById('ui-container') || document.body;
@@ -292,6 +658,7 @@ export class Game {
     progressContainer.style.borderRadius = '5px';
     progressContainer.style.overflow = 'hidden';
     progressContainer.style.border = '2px solid rgba(255, 255, 255, 0.5)'; // Border for definition
+    progressContainer.style.position = 'relative'; // For the goal markers
     
     // Create progress bar
     const progressBar = document.createElement('div');
@@ -302,13 +669,86 @@ export class Game {
     progressBar.style.transition = 'width 0.5s ease-in-out'; // Smooth transition
     progressBar.style.borderRadius = '3px';
     
+    // Mark each coverage goal on the progress bar
+    this.coverageGoals.forEach(goal => {
+      const marker = document.createElement('div');
+      marker.style.position = 'absolute';
+      marker.style.top = '0';
+      marker.style.left = `${goal}%`;
+      marker.style.width = '2px';
+      marker.style.height = '100%';
+      marker.style.transform = 'translateX(-1px)';
+      marker.style.backgroundColor = 'rgba(255, 255, 255, 0.8)';
+      marker.title = `Goal: ${goal}%`;
+      progressContainer.appendChild(marker);
+    });
+    
+    // Create next goal text
+    const goalText = document.createElement('div');
+    goalText.id = 'coverage-next-goal';
+    goalText.style.fontSize = '14px';
+    goalText.style.marginTop = '8px';
+    
+    // Create toast for announcing reached goals
+    const goalToast = document.createElement('div');
+    goalToast.id = 'coverage-goal-toast';
+    goalToast.style.fontSize = '16px';
+    goalToast.style.fontWeight = 'bold';
+    goalToast.style.color = '#FFD700'; // Gold to stand out
+    goalToast.style.marginTop = '8px';
+    goalToast.style.opacity = '0';
+    goalToast.style.transition = 'opacity 0.5s ease-in-out';
+    
+    // Create the mode's own HUD elements
+    const modeHUD = this.mode.createHUD();
+    
+    // Create seed text so the planet can be shared and replayed
+    const seedText = document.createElement('div');
+    seedText.id = 'coverage-seed';
+    seedText.style.fontSize = '12px';
+    seedText.style.marginTop = '8px';
+    seedText.style.opacity = '0.7';
+    seedText.textContent = `${this.mode.name} · Seed: ${this.seed}`;
+    seedText.title = 'Open the game with ?seed=<number> to replay this planet';
+    
+    // Camera mode switch, for players without a keyboard
+    const cameraModeButton = document.createElement('button');
+    cameraModeButton.id = 'camera-mode-button';
+    cameraModeButton.textContent = `Camera: ${this.cameraController.getModeName()}`;
+    cameraModeButton.title = 'Drag to turn the camera, scroll to zoom';
+    cameraModeButton.style.marginTop = '8px';
+    cameraModeButton.style.padding = '4px 12px';
+    cameraModeButton.style.fontSize = '12px';
+    cameraModeButton.style.color = 'white';
+    cameraModeButton.style.backgroundColor = 'transparent';
+    cameraModeButton.style.border = '1px solid #4CAF50';
+    cameraModeButton.style.borderRadius = '5px';
+    cameraModeButton.style.cursor = 'pointer';
+    cameraModeButton.addEventListener('click', () => {
+      cameraModeButton.blur(); // Keep Space/Enter from clicking it again while playing
+      this.nextCameraMode();
+    });
+    this.cameraModeButton = cameraModeButton;
+    
     // Assemble UI
     progressContainer.appendChild(progressBar);
     coverageContainer.appendChild(title);
     coverageContainer.appendChild(percentageText);
     coverageContainer.appendChild(progressContainer);
+    coverageContainer.appendChild(goalText);
+    coverageContainer.appendChild(goalToast);
+    if (modeHUD) {
+      coverageContainer.appendChild(modeHUD);
+    }
+    coverageContainer.appendChild(seedText);
+    coverageContainer.appendChild(cameraModeButton);
     uiContainer.appendChild(coverageContainer);
     
+    // Put the seed in the address bar so the current URL replays this planet
+    const url = new URL(window.location.href);
+    url.searchParams.set('seed', String(this.seed));
+    window.history.replaceState(null, '', url.toString());
+    
     // Store reference to progress bar
     this.coverageProgress = progressBar;
     
@@ -345,60 +785,97 @@ export class Game {
       percentageText.textContent = `Coverage: ${roundedPercentage.toFixed(2)}%`;
     }
     
+    // Update next goal text
+    const goalText = document.getElementById('coverage-next-goal');
+    if (goalText) {
+      goalText.textContent = this.nextGoalIndex < this.coverageGoals.length
+        ? `Next goal: ${this.coverageGoals[this.nextGoalIndex]}%`
+        : 'All goals reached!';
+    }
+    
+    // Update the mode's HUD
+    this.mode.updateHUD(this.getRoundState(percentage));
+    
     // Log the percentage for debugging
     console.log(`Coverage percentage: ${roundedPercentage}%`);
   }
   
-  private setupBackgroundMusic(): void {
+  // Briefly show a message under the progress bar
+  private showGoalToast(message: string): void {
+    const goalToast = document.getElementById('coverage-goal-toast');
+    if (!goalToast) return;
+    
+    goalToast.textContent = message;
+    goalToast.style.opacity = '1';
+    if (this.goalToastTimeout !== null) {
+      window.clearTimeout(this.goalToastTimeout);
+    }
+    this.goalToastTimeout = window.setTimeout(() => {
+      goalToast.style.opacity = '0';
+      this.goalToastTimeout = null;
+    }, 3000);
+  }
+  
+  // musicUrl is null when the music failed to load, the game is silent then
+  private setupBackgroundMusic(musicUrl: string | null): void {
+    if (!musicUrl) return;
+    
     // Create audio element for background music
-    this.backgroundMusic = new Audio('./assets/bgmusic_1.mp3');
-    this.backgroundMusic.loop = true; // Set to loop continuously
-    this.backgroundMusic.volume = 0.3; // Set volume to 30% to avoid being too loud
-    this.backgroundMusic.autoplay = true; // Start playing automatically
+    const backgroundMusic = new Audio(musicUrl);
+    this.backgroundMusic = backgroundMusic;
+    backgroundMusic.loop = true; // Set to loop continuously
+    backgroundMusic.volume = 0.3; // Set volume to 30% to avoid being too loud
+    backgroundMusic.autoplay = true; // Start playing automatically
     
     // Log for debugging
     console.log("Background music initialized with loop enabled");
     
     // Handle potential playback issues
-    this.backgroundMusic.addEventListener('error', (e: Event) => {
+    backgroundMusic.addEventListener('error', (e: Event) => {
       console.error("Error loading background music:", e);
     });
     
     // Set a random start time within the duration of the audio once it's loaded
-    this.backgroundMusic.addEventListener('loadedmetadata', () => {
-      if (this.backgroundMusic.duration) {
-        const randomTime = Math.random() * this.backgroundMusic.duration;
-        this.backgroundMusic.currentTime = randomTime;
+    backgroundMusic.addEventListener('loadedmetadata', () => {
+      if (backgroundMusic.duration) {
+        const randomTime = Math.random() * backgroundMusic.duration;
+        backgroundMusic.currentTime = randomTime;
         console.log(`Set random start time to ${randomTime.toFixed(2)} seconds`);
       }
     });
     
     // Attempt to play (some browsers require user interaction)
-    const playPromise = this.backgroundMusic.play();
+    const playPromise = backgroundMusic.play();
     if (playPromise !== undefined) {
       playPromise.catch((error: Error) => {
         console.log("Autoplay prevented. Music will start on user interaction.", error);
         // Add event listener to play music on first user interaction
         const startMusic = () => {
+          this.pendingMusicStart = null;
+          if (!this.isRunning || this.isPaused) {
+            document.removeEventListener('click', startMusic);
+            return;
+          }
           // Set random start time on first interaction if not already set
-          if (this.backgroundMusic.currentTime === 0 && this.backgroundMusic.duration) {
-            const randomTime = Math.random() * this.backgroundMusic.duration;
-            this.backgroundMusic.currentTime = randomTime;
+          if (backgroundMusic.currentTime === 0 && backgroundMusic.duration) {
+            const randomTime = Math.random() * backgroundMusic.duration;
+            backgroundMusic.currentTime = randomTime;
             console.log(`Set random start time to ${randomTime.toFixed(2)} seconds on user interaction`);
           }
-          this.backgroundMusic.play().catch((err: Error) => console.error("Failed to play music:", err));
+          backgroundMusic.play().catch((err: Error) => console.error("Failed to play music:", err));
           document.removeEventListener('click', startMusic);
         };
+        this.pendingMusicStart = startMusic;
         document.addEventListener('click', startMusic);
       });
     }
   }
 
-  private onWindowResize(): void {
+  private onWindowResize = (): void => {
     this.camera.aspect = window.innerWidth / window.innerHeight;
     this.camera.updateProjectionMatrix();
     this.renderer.setSize(window.innerWidth, window.innerHeight);
-  }
+  };
 
   private setupGradientBackground(): void {
     if (this.backgroundContext) {
@@ -0,0 +1,198 @@
+import { formatDuration } from './utils/format';
+
+// Coverage goals (in percent) for Zen, the round is complete when the last one is reached
+export const DEFAULT_COVERAGE_GOALS = [50, 75, 95, 100];
+
+export type GameModeId = 'zen' | 'timeAttack' | 'efficiency';
+
+// Snapshot of the round passed to modes every update
+export interface RoundState {
+  coverage: number; // Percent of the planet covered
+  elapsedTime: number; // Seconds played
+  distanceTravelled: number;
+}
+
+// Result of a round as scored by its mode
+export interface ModeScore {
+  value: number;
+  label: string; // What the value measures, e.g. "Time"
+  formatted: string; // Value formatted for display
+  higherIsBetter: boolean;
+}
+
+// A game mode decides the HUD, when the round is over and how it is scored
+export interface GameMode {
+  readonly id: GameModeId;
+  readonly name: string;
+  readonly description: string;
+  readonly coverageGoals: number[]; // Milestones announced during the round
+  readonly hazards: boolean; // Whether drought storms roam the planet and wither covered ground
+
+  // Create the mode's HUD elements (added below the coverage bar), or null if it has none
+  createHUD(): HTMLElement | null;
+  updateHUD(state: RoundState): void;
+  isRoundOver(state: RoundState): boolean;
+  getResultTitle(state: RoundState): string;
+  getScore(state: RoundState): ModeScore;
+}
+
+// Name and description of every mode, for the home screen
+export const GAME_MODES: Array<{ id: GameModeId; name: string; description: string }> = [
+  { id: 'zen', name: 'Zen', description: 'Cover the whole planet at your own pace.' },
+  { id: 'timeAttack', name: 'Time Attack', description: 'Cover as much as you can before the clock runs out.' },
+  { id: 'efficiency', name: 'Efficiency', description: 'Reach the target coverage with the shortest path.' }
+];
+
+// Create the mode for an id (unknown ids fall back to Zen)
+// coverageGoals overrides Zen's goals, the other modes have their own end conditions
+export function createGameMode(id: GameModeId, coverageGoals?: number[]): GameMode {
+  switch (id) {
+    case 'timeAttack':
+      return new TimeAttackMode();
+    case 'efficiency':
+      return new EfficiencyMode();
+    default:
+      return new ZenMode(coverageGoals);
+  }
+}
+
+export function isGameModeId(value: unknown): value is GameModeId {
+  return GAME_MODES.some(mode => mode.id === value);
+}
+
+// Create a HUD line element shared by the modes
+function createHUDText(id: string): HTMLElement {
+  const text = document.createElement('div');
+  text.id = id;
+  text.style.fontSize = '16px';
+  text.style.fontWeight = 'bold';
+  text.style.marginTop = '8px';
+  return text;
+}
+
+// Endless coverage: the round ends once every goal has been reached, scored by time taken
+export class ZenMode implements GameMode {
+  readonly id = 'zen';
+  readonly name = 'Zen';
+  readonly description = GAME_MODES[0].description;
+  readonly coverageGoals: number[];
+  readonly hazards = false; // Nothing works against the player, storms can be turned on in Settings
+
+  constructor(coverageGoals: number[] = DEFAULT_COVERAGE_GOALS) {
+    this.coverageGoals = [...coverageGoals].sort((a, b) => a - b);
+  }
+
+  createHUD(): HTMLElement | null {
+    return null;
+  }
+
+  updateHUD(): void {
+    // Zen only uses the coverage bar
+  }
+
+  isRoundOver(state: RoundState): boolean {
+    return state.coverage >= this.coverageGoals[this.coverageGoals.length - 1];
+  }
+
+  getResultTitle(): string {
+    return 'Planet Complete!';
+  }
+
+  getScore(state: RoundState): ModeScore {
+    return {
+      value: state.elapsedTime,
+      label: 'Time',
+      formatted: formatDuration(state.elapsedTime),
+      higherIsBetter: false
+    };
+  }
+}
+
+// Maximize coverage before the time limit, scored by final coverage
+export class TimeAttackMode implements GameMode {
+  readonly id = 'timeAttack';
+  readonly name = 'Time Attack';
+  readonly description = GAME_MODES[1].description;
+  readonly coverageGoals = [10, 25, 50];
+  readonly hazards = true;
+  private timeLimit: number; // Seconds
+  private timerText: HTMLElement | null = null;
+
+  constructor(timeLimit: number = 180) {
+    this.timeLimit = timeLimit;
+  }
+
+  createHUD(): HTMLElement | null {
+    this.timerText = createHUDText('mode-timer');
+    return this.timerText;
+  }
+
+  updateHUD(state: RoundState): void {
+    if (!this.timerText) return;
+    const remaining = Math.max(0, this.timeLimit - state.elapsedTime);
+    this.timerText.textContent = `Time left: ${formatDuration(Math.ceil(remaining))}`;
+    // Turn red in the last 10 seconds
+    this.timerText.style.color = remaining <= 10 ? '#FF5252' : 'white';
+  }
+
+  isRoundOver(state: RoundState): boolean {
+    return state.elapsedTime >= this.timeLimit || state.coverage >= 100;
+  }
+
+  getResultTitle(state: RoundState): string {
+    return state.coverage >= 100 ? 'Planet Complete!' : "Time's Up!";
+  }
+
+  getScore(state: RoundState): ModeScore {
+    return {
+      value: state.coverage,
+      label: 'Coverage',
+      formatted: `${state.coverage.toFixed(2)}%`,
+      higherIsBetter: true
+    };
+  }
+}
+
+// Reach a target coverage with as little travelling as possible, scored by path length
+export class EfficiencyMode implements GameMode {
+  readonly id = 'efficiency';
+  readonly name = 'Efficiency';
+  readonly description = GAME_MODES[2].description;
+  readonly coverageGoals: number[];
+  readonly hazards = false; // The score is the path length alone, storms would make it a matter of luck
+  private targetCoverage: number; // Percent
+  private distanceText: HTMLElement | null = null;
+
+  constructor(targetCoverage: number = 75) {
+    this.targetCoverage = targetCoverage;
+    this.coverageGoals = [targetCoverage / 3, (targetCoverage * 2) / 3, targetCoverage].map(Math.round);
+  }
+
+  createHUD(): HTMLElement | null {
+    this.distanceText = createHUDText('mode-distance');
+    return this.distanceText;
+  }
+
+  updateHUD(state: RoundState): void {
+    if (!this.distanceText) return;
+    this.distanceText.textContent =
+      `Path: ${state.distanceTravelled.toFixed(0)} m · Target: ${this.targetCoverage}%`;
+  }
+
+  isRoundOver(state: RoundState): boolean {
+    return state.coverage >= this.targetCoverage;
+  }
+
+  getResultTitle(): string {
+    return 'Target Reached!';
+  }
+
+  getScore(state: RoundState): ModeScore {
+    return {
+      value: state.distanceTravelled,
+      label: 'Path length',
+      formatted: `${state.distanceTravelled.toFixed(0)} m`,
+      higherIsBetter: false
+    };
+  }
+}
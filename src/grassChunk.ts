@@ -0,0 +1,205 @@
+import * as THREE from 'three';
+
+// Blades a chunk has room for at first, it doubles its storage whenever it runs out
+const INITIAL_CAPACITY = 256;
+
+// Added to the radius of the sphere around the blade roots so it also holds the tallest bent blades
+const BLADE_MARGIN = 2;
+
+/**
+ * The grass blades of one patch of the planet, drawn as a single InstancedMesh.
+ * Keeps track of which instances belong to which vertex so a vertex's blades can be removed again,
+ * and a bounding sphere so the renderer can skip chunks outside the view.
+ */
+export class GrassChunk {
+  private parent: THREE.Object3D;
+  private material: THREE.Material;
+  private nearGeometry: THREE.BufferGeometry; // Full detail blades
+  private farGeometry: THREE.BufferGeometry; // Blades with fewer segments, for chunks far from the camera
+  private mesh: THREE.InstancedMesh;
+  private tints: THREE.InstancedBufferAttribute; // Per-blade color multiplier from the biome
+  private birthTimes: THREE.InstancedBufferAttribute; // Per-blade time it sprouted, drives its growth
+  private instanceVertices: Int32Array; // Vertex each instance belongs to
+  private vertexInstances: Map<number, number[]> = new Map(); // Instance indices of each vertex's blades
+  private bounds: THREE.Sphere = new THREE.Sphere(); // Around the roots of every blade the chunk ever had
+  private count: number = 0;
+  private capacity: number = 0;
+
+  // nearGeometry and farGeometry are blade templates, the chunk keeps its own copies of them
+  constructor(
+    parent: THREE.Object3D,
+    nearGeometry: THREE.BufferGeometry,
+    farGeometry: THREE.BufferGeometry,
+    material: THREE.Material
+  ) {
+    this.parent = parent;
+    this.material = material;
+    this.nearGeometry = nearGeometry.clone();
+    this.farGeometry = farGeometry.clone();
+    this.tints = new THREE.InstancedBufferAttribute(new Float32Array(0), 3);
+    this.birthTimes = new THREE.InstancedBufferAttribute(new Float32Array(0), 1);
+    this.instanceVertices = new Int32Array(0);
+    this.mesh = new THREE.InstancedMesh(this.nearGeometry, this.material, 0);
+    this.allocate(INITIAL_CAPACITY);
+  }
+
+  getCount(): number {
+    return this.count;
+  }
+
+  // Sphere around every blade of the chunk, in the planet's space
+  getBounds(): THREE.Sphere {
+    return this.mesh.boundingSphere!;
+  }
+
+  // Show or hide the chunk and pick its level of detail
+  setVisible(visible: boolean, nearCamera: boolean): void {
+    this.mesh.visible = visible && this.count > 0;
+    this.mesh.geometry = nearCamera ? this.nearGeometry : this.farGeometry;
+  }
+
+  // Append a blade for a vertex
+  add(vertexIndex: number, matrix: THREE.Matrix4, tint: THREE.Color, birthTime: number): void {
+    if (this.count === this.capacity) {
+      this.allocate(this.capacity * 2);
+    }
+
+    const instance = this.count++;
+    this.mesh.setMatrixAt(instance, matrix);
+    this.tints.setXYZ(instance, tint.r, tint.g, tint.b);
+    this.birthTimes.setX(instance, birthTime);
+    this.instanceVertices[instance] = vertexIndex;
+
+    let instances = this.vertexInstances.get(vertexIndex);
+    if (!instances) {
+      instances = [];
+      this.vertexInstances.set(vertexIndex, instances);
+    }
+    instances.push(instance);
+
+    // Grow the bounds to the blade's root, the matrix translation
+    this.bounds.expandByPoint(new THREE.Vector3().setFromMatrixPosition(matrix));
+    this.mesh.boundingSphere!.set(this.bounds.center, this.bounds.radius + BLADE_MARGIN);
+
+    this.mesh.count = this.count;
+    this.markChanged();
+  }
+
+  // Remove all blades of a vertex, returns how many there were
+  removeVertex(vertexIndex: number): number {
+    return this.removeBlades(vertexIndex, Infinity);
+  }
+
+  // Remove up to count of a vertex's newest blades, returns how many were removed
+  removeBlades(vertexIndex: number, count: number): number {
+    const instances = this.vertexInstances.get(vertexIndex);
+    if (!instances) return 0;
+
+    const removed = Math.min(count, instances.length);
+    // removeInstance drops the index from the list, and the list from the map once it is empty
+    for (let i = 0; i < removed; i++) {
+      this.removeInstance(instances[instances.length - 1]);
+    }
+    this.mesh.count = this.count;
+    return removed;
+  }
+
+  // Remove every other blade of every vertex, returns how many blades were removed
+  thinOut(): number {
+    const previousCount = this.count;
+    this.vertexInstances.forEach(instances => {
+      const keep = Math.ceil(instances.length / 2);
+      while (instances.length > keep) {
+        this.removeInstance(instances[instances.length - 1]);
+      }
+    });
+    this.mesh.count = this.count;
+    return previousCount - this.count;
+  }
+
+  dispose(): void {
+    this.parent.remove(this.mesh);
+    this.mesh.dispose();
+    this.nearGeometry.dispose();
+    this.farGeometry.dispose();
+  }
+
+  // Remove a blade by moving the last one into its slot, so the live instances stay packed at the start
+  // The caller updates the mesh's instance count
+  private removeInstance(instance: number): void {
+    const vertexIndex = this.instanceVertices[instance];
+    const instances = this.vertexInstances.get(vertexIndex)!;
+    instances.splice(instances.indexOf(instance), 1);
+    if (instances.length === 0) {
+      this.vertexInstances.delete(vertexIndex);
+    }
+
+    const last = --this.count;
+    if (instance !== last) {
+      // Copy the last blade's attributes over the removed one
+      this.mesh.instanceMatrix.array.copyWithin(instance * 16, last * 16, last * 16 + 16);
+      this.tints.array.copyWithin(instance * 3, last * 3, last * 3 + 3);
+      this.birthTimes.array.copyWithin(instance, last, last + 1);
+
+      // And point its vertex at the new slot
+      const lastVertex = this.instanceVertices[last];
+      this.instanceVertices[instance] = lastVertex;
+      const lastInstances = this.vertexInstances.get(lastVertex)!;
+      lastInstances[lastInstances.indexOf(last)] = instance;
+    }
+
+    this.markChanged();
+  }
+
+  // (Re)create the mesh with room for capacity blades, keeping the current ones
+  // GPU buffers can't grow, so the old mesh is replaced by a bigger one
+  private allocate(capacity: number): void {
+    const oldMesh = this.mesh;
+    const visible = oldMesh.visible;
+    const geometry = oldMesh.geometry;
+    this.parent.remove(oldMesh);
+    oldMesh.dispose();
+
+    // Fresh geometries too, disposing them frees the old instance attributes on the GPU
+    this.nearGeometry.dispose();
+    this.farGeometry.dispose();
+    const nearGeometry = this.nearGeometry.clone();
+    const farGeometry = this.farGeometry.clone();
+
+    const tints = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3).fill(1), 3);
+    tints.array.set(this.tints.array.subarray(0, this.count * 3));
+    const birthTimes = new THREE.InstancedBufferAttribute(new Float32Array(capacity), 1);
+    birthTimes.array.set(this.birthTimes.array.subarray(0, this.count));
+    [nearGeometry, farGeometry].forEach(lodGeometry => {
+      lodGeometry.setAttribute('grassTint', tints);
+      lodGeometry.setAttribute('grassBirthTime', birthTimes);
+    });
+
+    const instanceVertices = new Int32Array(capacity);
+    instanceVertices.set(this.instanceVertices.subarray(0, this.count));
+
+    const mesh = new THREE.InstancedMesh(geometry === this.farGeometry ? farGeometry : nearGeometry, this.material, capacity);
+    mesh.instanceMatrix.array.set(oldMesh.instanceMatrix.array.subarray(0, this.count * 16));
+    mesh.count = this.count;
+    mesh.visible = visible;
+    mesh.castShadow = false;
+    mesh.receiveShadow = false;
+    // Set by hand from the blade roots, rather than recomputed from every instance matrix
+    mesh.boundingSphere = oldMesh.boundingSphere?.clone() ?? new THREE.Sphere(new THREE.Vector3(), -1);
+    this.parent.add(mesh);
+
+    this.mesh = mesh;
+    this.nearGeometry = nearGeometry;
+    this.farGeometry = farGeometry;
+    this.tints = tints;
+    this.birthTimes = birthTimes;
+    this.instanceVertices = instanceVertices;
+    this.capacity = capacity;
+  }
+
+  private markChanged(): void {
+    this.mesh.instanceMatrix.needsUpdate = true;
+    this.tints.needsUpdate = true;
+    this.birthTimes.needsUpdate = true;
+  }
+}
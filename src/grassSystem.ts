@@ -1,16 +1,41 @@
 import * as THREE from 'three';
+import { FertileVertex, WorldSphere } from './sphere';
+import { EventEmitter } from './utils/eventEmitter';
+import { GrassChunk } from './grassChunk';
 
 // Constants for grass generation
-const GRASS_BLADES_PER_VERTEX = 100; // Number of grass blades per fertile vertex
+const GRASS_BLADES_PER_UNIT_AREA = 300; // Grass blades per unit of surface area (about 100 per vertex on the default planet)
+const GRASS_SPREAD = 3; // Blades spread over a disc this many times the radius of the vertex's own area, so tufts blend
 const GRASS_BLADE_SEGMENTS = 5; // Number of segments per blade (for bending)
+const GRASS_FAR_BLADE_SEGMENTS = 1; // Segments per blade in chunks far from the camera
 const GRASS_BLADE_HEIGHT = 1; // Height of each grass blade
 const GRASS_BLADE_WIDTH = 0.08; // Width of each grass blade
+const GRASS_GROW_TIME = 4; // Seconds a blade takes from sprouting to full height
+const MIN_DENSITY_SCALE = 1 / 16; // Grass isn't thinned out further than this when the blade budget runs out
+const DENSITY_RESTORE_FILL = 0.35; // Density doubles again once fewer than this share of the budget is in use
+const BUDGET_RESUME_FILL = 0.9; // Parked vertices grow again once fewer than this share of the budget is in use
+
+// Constants for chunked rendering
+const GRASS_CHUNK_DIVISIONS = 6; // Chunks along each edge of the cube faces the planet is split by (6 * 6 * 6 chunks)
+const GRASS_LOD_DISTANCE = 20; // Chunks further than this from the camera draw their blades with fewer segments
+const GRASS_HORIZON_HEIGHT = 3; // Terrain bumps and blades up to this height can peek over the horizon
+
+// Events emitted by GrassSystem
+export type GrassEvents = {
+  grassThinned: { densityScale: number }; // The blade budget ran out, all grass was thinned to this share of blades
+  budgetExhausted: undefined; // The budget ran out at the lowest density, no more grass grows until some withers
+  grassRestored: { densityScale: number }; // Enough grass withered that it grows at this higher density again
+};
 
 export class GrassSystem {
+  readonly events = new EventEmitter<GrassEvents>();
   private scene: THREE.Scene;
-  private worldSphere: THREE.Mesh;
-  private grassMesh: THREE.InstancedMesh | null = null;
+  private worldSphere: WorldSphere;
+  private grassGroup: THREE.Group = new THREE.Group(); // Holds the meshes of all chunks
+  private chunks: Map<number, GrassChunk> = new Map(); // Chunks that have grass, by chunk key
+  private vertexChunks: Map<number, GrassChunk> = new Map(); // Chunk holding each vertex's blades
   private grassGeometry: THREE.BufferGeometry | null = null;
+  private farGrassGeometry: THREE.BufferGeometry | null = null;
   private grassMaterial: THREE.ShaderMaterial | null = null;
   private sunPosition: THREE.Vector3 = new THREE.Vector3(1, 1, 1).normalize();
   private sunColor: THREE.Color = new THREE.Color(0xffffcc);
@@ -21,23 +46,37 @@ export class GrassSystem {
   private grassRandoms: Float32Array | null = null;
   private grassCount: number = 0;
   private maxGrassCount: number = 1000000; // Maximum number of grass blades
-  private placedGrassBlades: Set<number> = new Set(); // Track indices of vertices that already have grass
+  private bladeCounts: Map<number, number> = new Map(); // Blades placed so far per vertex, more sprout as fertility rises
+  private pendingVertices: Set<number> = new Set(); // Vertices covered or with changed fertility since grass last grew
+  private unsubscribers: Array<() => void> = []; // Stop listening to the planet's events
+  private densityScale: number = 1; // Share of the full blade density placed, halved each time the budget runs out
+  private budgetExhausted: boolean = false; // The budget ran out at the lowest density
+  private parkedVertices: Set<number> = new Set(); // Vertices waiting for room while the budget is exhausted
   private computeRenderer: THREE.WebGLRenderer | null = null;
   private positionTarget: THREE.WebGLRenderTarget | null = null;
   private computeCamera: THREE.Camera | null = null;
   private computeScene: THREE.Scene | null = null;
   private computeMaterial: THREE.ShaderMaterial | null = null;
   private initialized: boolean = false;
+  private time: number = 0; // Seconds of simulated time, drives the wind animation
 
-  constructor(scene: THREE.Scene, worldSphere: THREE.Mesh) {
+  constructor(scene: THREE.Scene, worldSphere: WorldSphere) {
     this.scene = scene;
     this.worldSphere = worldSphere;
     this.initializeGrassSystem();
+    
+    // Grass only needs to change where the planet did
+    this.unsubscribers = [
+      worldSphere.events.on('vertexVisited', vertexIndex => this.pendingVertices.add(vertexIndex)),
+      worldSphere.events.on('fertilityChanged', vertexIndex => this.pendingVertices.add(vertexIndex)),
+      worldSphere.events.on('vertexUnvisited', vertexIndex => this.removeVertexGrass(vertexIndex))
+    ];
   }
 
   private initializeGrassSystem(): void {
-    // Create grass blade geometry
-    this.grassGeometry = this.createGrassBladeGeometry();
+    // Create grass blade geometry, and a simpler one for distant chunks
+    this.grassGeometry = this.createGrassBladeGeometry(GRASS_BLADE_SEGMENTS);
+    this.farGrassGeometry = this.createGrassBladeGeometry(GRASS_FAR_BLADE_SEGMENTS);
 
     // Create shader material for grass
     this.grassMaterial = new THREE.ShaderMaterial({
@@ -46,26 +85,18 @@ export class GrassSystem {
       side: THREE.DoubleSide,
       uniforms: {
         time: { value: 0 },
+        growTime: { value: GRASS_GROW_TIME },
         sunDirection: { value: this.sunPosition.clone() },
         sunColor: { value: this.sunColor.clone() },
         moonDirection: { value: this.moonPosition.clone() },
         moonColor: { value: this.moonColor.clone() },
         vertexPosition: { value: new THREE.Vector3() },
-        grassWidth: { value: GRASS_BLADE_WIDTH },
-        grassDensity: { value: 1.0 }
+        grassWidth: { value: GRASS_BLADE_WIDTH }
       }
     });
 
-    // Create instanced mesh for grass
-    this.grassMesh = new THREE.InstancedMesh(
-      this.grassGeometry,
-      this.grassMaterial,
-      this.maxGrassCount
-    );
-    this.grassMesh.frustumCulled = false; // Disable frustum culling for now
-    this.grassMesh.castShadow = false;
-    this.grassMesh.receiveShadow = false;
-    this.scene.add(this.grassMesh);
+    // Each chunk adds its own instanced mesh to the group as grass grows in it
+    this.scene.add(this.grassGroup);
 
     // Initialize compute shader setup
     this.initializeComputeShader();
@@ -73,34 +104,31 @@ export class GrassSystem {
     this.initialized = true;
   }
 
-  private createGrassBladeGeometry(): THREE.BufferGeometry {
+  private createGrassBladeGeometry(segments: number): THREE.BufferGeometry {
     // Create a simple blade geometry (a thin rectangle)
     const geometry = new THREE.BufferGeometry();
     
     // Define vertices for a blade (centered at origin, pointing up along Y axis)
     const vertices = [];
     const uvs = [];
-    const vertIndices = [];
     const indices = [];
     
     // Create vertices for each segment of the blade
-    for (let i = 0; i <= GRASS_BLADE_SEGMENTS; i++) {
-      const heightPercent = i / GRASS_BLADE_SEGMENTS;
+    for (let i = 0; i <= segments; i++) {
+      const heightPercent = i / segments;
       const width = GRASS_BLADE_WIDTH * (1 - heightPercent * 0.8); // Taper the blade
       
       // Left vertex
       vertices.push(-width / 2, heightPercent * GRASS_BLADE_HEIGHT, 0);
       uvs.push(0, heightPercent);
-      vertIndices.push(i);
       
       // Right vertex
       vertices.push(width / 2, heightPercent * GRASS_BLADE_HEIGHT, 0);
       uvs.push(1, heightPercent);
-      vertIndices.push(i);
     }
     
     // Create indices for triangles
-    for (let i = 0; i < GRASS_BLADE_SEGMENTS; i++) {
+    for (let i = 0; i < segments; i++) {
       const bottomLeft = i * 2;
       const bottomRight = i * 2 + 1;
       const topLeft = (i + 1) * 2;
@@ -116,7 +144,6 @@ export class GrassSystem {
     // Set attributes
     geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
     geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
-    geometry.setAttribute('vertIndex', new THREE.Float32BufferAttribute(vertIndices, 1));
     geometry.setIndex(indices);
     
     // Compute normals
@@ -131,20 +158,26 @@ export class GrassSystem {
     // For now, we'll use CPU-based positioning
   }
 
-  public update(fertileVertices: Array<{index: number, position: THREE.Vector3, normal: THREE.Vector3, fertility: number}>): void {
-    if (!this.initialized || !this.grassMesh) return;
+  // Sprout grass where fertility rose, advance the animation by dt seconds and pick the chunks to draw for the camera
+  public update(dt: number, camera: THREE.Camera): void {
+    if (!this.initialized) return;
     
-    // Only place new grass blades for newly fertile vertices
-    this.placeNewGrassBlades(fertileVertices);
+    this.time += dt;
+    
+    // Only place the blades the changed vertices gained since the last update
+    this.relieveBudget();
+    this.placeNewGrassBlades();
+    this.updateChunkVisibility(camera);
     
     // Update time uniform for animation (wind effect)
     if (this.grassMaterial) {
-      this.grassMaterial.uniforms.time.value = performance.now() / 1000;
+      this.grassMaterial.uniforms.time.value = this.time;
       
       // Update sun and moon positions from the worldSphere
-      if (this.worldSphere.children && this.worldSphere.children.length > 0) {
+      const sphereMesh = this.worldSphere.getMesh();
+      if (sphereMesh.children && sphereMesh.children.length > 0) {
         // Find sun and moon directional lights
-        this.worldSphere.children.forEach(child => {
+        sphereMesh.children.forEach(child => {
           if (child instanceof THREE.DirectionalLight) {
             if (child.position.x > 0) { // Sun is in the positive direction
               this.sunPosition.copy(child.position.clone().normalize());
@@ -163,46 +196,57 @@ export class GrassSystem {
     }
   }
 
-  private placeNewGrassBlades(fertileVertices: Array<{index: number, position: THREE.Vector3, normal: THREE.Vector3, fertility: number}>): void {
-    if (!this.grassMesh) return;
-    
+  private placeNewGrassBlades(): void {
     // Create dummy matrix for transformation
     const matrix = new THREE.Matrix4();
     const position = new THREE.Vector3();
     const quaternion = new THREE.Quaternion();
     const scale = new THREE.Vector3(1, 1, 1);
     
-    // Track new blades to add
-    let newBlades = 0;
-    
-    // Calculate average fertility for density calculation
-    let totalFertility = 0;
-    let fertileVertexCount = 0;
-    
-    // Process each fertile vertex from the list of marked vertices
+    // Process each vertex that was covered or whose fertility changed since the last update
     // This ensures grass grows on all marked vertices, even if the player moved quickly over them
-    for (const vertex of fertileVertices) {
-      // Skip if fertility is too low
-      if (vertex.fertility < 0.1) continue;
+    for (const vertexIndex of this.pendingVertices) {
+      this.pendingVertices.delete(vertexIndex);
+      const vertex = this.worldSphere.getFertileVertex(vertexIndex);
+      if (!vertex) continue;
+      
+      // Number of blades for this vertex based on the area it covers and its fertility,
+      // so density is even whatever the mesh type and however tightly its vertices are packed
+      const bladesForVertex = Math.round(
+        GRASS_BLADES_PER_UNIT_AREA * this.densityScale * vertex.area * vertex.fertility
+      );
+      
+      // When fertility decayed the newest blades die back, down to what the vertex supports now
+      const placed = this.bladeCounts.get(vertex.index) ?? 0;
+      if (bladesForVertex < placed) {
+        this.grassCount -= this.vertexChunks.get(vertex.index)?.removeBlades(vertex.index, placed - bladesForVertex) ?? 0;
+        this.bladeCounts.set(vertex.index, bladesForVertex);
+        continue;
+      }
       
-      // Skip if we've already placed grass for this vertex
-      if (this.placedGrassBlades.has(vertex.index)) continue;
+      // Skip if the vertex already has as many blades as its fertility allows
+      if (bladesForVertex === placed) continue;
       
-      // Add to total fertility for density calculation
-      totalFertility += vertex.fertility;
-      fertileVertexCount++;
+      const spreadRadius = GRASS_SPREAD * Math.sqrt(vertex.area / Math.PI);
       
-      // Number of blades for this vertex based on fertility
-      const bladesForVertex = Math.floor(GRASS_BLADES_PER_VERTEX * vertex.fertility);
+      // Only blades of vertices close above the sea can spread into it, the others skip the height lookups
+      const nearShore = vertex.position.length() - this.worldSphere.getSeaLevel() < spreadRadius;
       
-      // Mark this vertex as having grass
-      this.placedGrassBlades.add(vertex.index);
+      // All of a vertex's blades go in the chunk of the vertex itself
+      const chunk = this.getVertexChunk(vertex);
       
-      // Place grass blades for this vertex
-      for (let i = 0; i < bladesForVertex && this.grassCount + newBlades < this.maxGrassCount; i++) {
+      // Place the new grass blades for this vertex
+      let outOfBudget = false;
+      for (let i = placed; i < bladesForVertex; i++) {
+        if (this.grassCount >= this.maxGrassCount) {
+          this.bladeCounts.set(vertex.index, i);
+          outOfBudget = true;
+          break;
+        }
+        
         // Generate random offset with smaller radius to keep grass blades closer to the vertex
         // This ensures more grass blades are rendered within the visible region
-        const randomRadius = Math.random(); // Reduced range from 0.1 to 0.4
+        const randomRadius = Math.random() * spreadRadius;
         const randomAngle = Math.random() * Math.PI * 2;
         
         // Create tangent space for the vertex
@@ -226,6 +270,9 @@ export class GrassSystem {
           .addScaledVector(tangent, offsetX)
           .addScaledVector(bitangent, offsetZ);
         
+        // Blades spread from the shore must not end up growing out of the sea
+        if (nearShore && this.worldSphere.isUnderwater(position)) continue;
+        
         // Random rotation around normal axis
         const randomRotation = Math.random() * Math.PI * 2;
         quaternion.setFromAxisAngle(normal, randomRotation);
@@ -258,41 +305,133 @@ export class GrassSystem {
         const bendQuat = new THREE.Quaternion().setFromAxisAngle(bendAxis, bendAngle);
         quaternion.multiply(bendQuat);
         
-        // Random scale variation
-        const heightScale = 0.8 + Math.random() * 0.4;
+        // Random scale variation around the biome's blade height
+        const heightScale = (0.8 + Math.random() * 0.4) * vertex.biome.grassHeight;
         scale.set(1, heightScale, 1);
         
-        // Set matrix
+        // Set matrix and biome tint
         matrix.compose(position, quaternion, scale);
-        this.grassMesh.setMatrixAt(this.grassCount + newBlades, matrix);
-        
-        newBlades++;
+        chunk.add(vertex.index, matrix, vertex.biome.grassTint, this.time);
+        this.grassCount++;
+      }
+      
+      // Out of budget: thin out all grass and stop for this update, the rest grows at the lower density
+      // (this vertex and those not reached yet stay pending)
+      // At the lowest density the vertex is parked instead, so it isn't retried every update
+      if (outOfBudget) {
+        if (this.thinOut()) {
+          this.pendingVertices.add(vertex.index);
+          break;
+        }
+        this.parkedVertices.add(vertex.index);
+        continue;
       }
+      
+      // Remember how many blades the vertex has, including any that landed in the sea and were skipped
+      this.bladeCounts.set(vertex.index, bladesForVertex);
     }
+  }
+
+  // Remove the grass of a vertex that withered, it can grow back once the vertex is covered again
+  private removeVertexGrass(vertexIndex: number): void {
+    this.bladeCounts.delete(vertexIndex);
+    this.pendingVertices.delete(vertexIndex);
+    this.parkedVertices.delete(vertexIndex);
+    const chunk = this.vertexChunks.get(vertexIndex);
+    if (!chunk) return;
     
-    // Update instance count if new blades were added
-    if (newBlades > 0) {
-      this.grassCount += newBlades;
-      this.grassMesh.count = this.grassCount;
-      this.grassMesh.instanceMatrix.needsUpdate = true;
-      
-      // Update grass density uniform based on average fertility
-      if (this.grassMaterial && fertileVertexCount > 0) {
-        const averageFertility = totalFertility / fertileVertexCount;
-        this.grassMaterial.uniforms.grassDensity.value = averageFertility;
+    this.grassCount -= chunk.removeVertex(vertexIndex);
+    this.vertexChunks.delete(vertexIndex);
+  }
+  
+  // The chunk a vertex's blades go in, created when the first grass grows in its patch
+  private getVertexChunk(vertex: FertileVertex): GrassChunk {
+    let chunk = this.vertexChunks.get(vertex.index);
+    if (chunk) return chunk;
+    
+    const key = getChunkKey(vertex.position);
+    chunk = this.chunks.get(key);
+    if (!chunk) {
+      chunk = new GrassChunk(this.grassGroup, this.grassGeometry!, this.farGrassGeometry!, this.grassMaterial!);
+      this.chunks.set(key, chunk);
+    }
+    this.vertexChunks.set(vertex.index, chunk);
+    return chunk;
+  }
+  
+  // Hide chunks behind the planet and draw distant ones in less detail,
+  // chunks outside the view are skipped by the renderer from their bounding spheres
+  private updateChunkVisibility(camera: THREE.Camera): void {
+    const cameraPosition = camera.getWorldPosition(new THREE.Vector3());
+    const cameraDistance = cameraPosition.length();
+    const radius = this.worldSphere.getRadius();
+    
+    // Angle from the camera's direction out to where the planet hides things, widened for what rises above the ground
+    const horizon = Math.acos(Math.min(1, radius / cameraDistance))
+      + Math.acos(radius / (radius + GRASS_HORIZON_HEIGHT));
+    
+    this.chunks.forEach(chunk => {
+      const bounds = chunk.getBounds();
+      // Angle the chunk spans around its center, as seen from the planet center
+      const spread = Math.asin(Math.min(1, bounds.radius / bounds.center.length()));
+      const visible = cameraPosition.angleTo(bounds.center) - spread < horizon;
+      const nearCamera = cameraPosition.distanceTo(bounds.center) - bounds.radius < GRASS_LOD_DISTANCE;
+      chunk.setVisible(visible, nearCamera);
+    });
+  }
+  
+  // The blade budget ran out: drop every other blade of every vertex and grow new ones at half the density
+  // Returns false at the lowest density, where it only warns and relieveBudget lets grass grow again later
+  private thinOut(): boolean {
+    if (this.densityScale <= MIN_DENSITY_SCALE) {
+      if (!this.budgetExhausted) {
+        this.budgetExhausted = true;
+        console.warn(`Grass budget of ${this.maxGrassCount} blades exhausted, no more grass will grow`);
+        this.events.emit('budgetExhausted', undefined);
       }
+      return false;
+    }
+    
+    this.densityScale /= 2;
+    this.chunks.forEach(chunk => {
+      this.grassCount -= chunk.thinOut();
+    });
+    this.bladeCounts.forEach((count, vertexIndex) => this.bladeCounts.set(vertexIndex, Math.ceil(count / 2)));
+    
+    console.warn(`Grass budget of ${this.maxGrassCount} blades reached, thinned grass to ${this.densityScale * 100}%`);
+    this.events.emit('grassThinned', { densityScale: this.densityScale });
+    return true;
+  }
+  
+  // Undo the budget measures once withering has freed up enough room
+  // The thresholds sit well below the budget, so grass doesn't flip between densities
+  private relieveBudget(): void {
+    if (this.budgetExhausted && this.grassCount < this.maxGrassCount * BUDGET_RESUME_FILL) {
+      this.budgetExhausted = false;
+      this.parkedVertices.forEach(vertexIndex => this.pendingVertices.add(vertexIndex));
+      this.parkedVertices.clear();
+    }
+    
+    // Doubling the density about doubles the blades, this leaves room for that
+    if (this.densityScale < 1 && this.grassCount < this.maxGrassCount * DENSITY_RESTORE_FILL) {
+      this.densityScale *= 2;
+      // Every vertex with grass is now short of blades and fills back in
+      this.bladeCounts.forEach((_count, vertexIndex) => this.pendingVertices.add(vertexIndex));
+      console.log(`Grass budget has room again, growing grass at ${this.densityScale * 100}%`);
+      this.events.emit('grassRestored', { densityScale: this.densityScale });
     }
   }
 
   private getGrassVertexShader(): string {
     return `
-      attribute float vertIndex;
+      attribute vec3 grassTint;
+      attribute float grassBirthTime;
       
       uniform float time;
+      uniform float growTime;
       uniform vec3 sunDirection;
       uniform vec3 moonDirection;
       uniform float grassWidth;
-      uniform float grassDensity;
       
       varying vec2 vUv;
       varying vec3 vNormal;
@@ -300,7 +439,7 @@ export class GrassSystem {
       varying vec3 vWorldPosition;
       varying vec3 vTerrainNormal;
       varying float vViewDistance;
-      varying float vDensity;
+      varying vec3 vTint;
       
       // Helper functions for easing
       float easeOut(float x, float power) {
@@ -336,12 +475,12 @@ export class GrassSystem {
       void main() {
         vUv = uv;
         
-        // Calculate height percentage (0 at base, 1 at tip)
-        float heightPercent = vertIndex / ${GRASS_BLADE_SEGMENTS.toFixed(1)};
+        // Height percentage (0 at base, 1 at tip), whatever the number of segments
+        float heightPercent = uv.y;
         vHeight = heightPercent;
         
-        // Pass density to fragment shader
-        vDensity = grassDensity;
+        // Pass the biome tint to fragment shader
+        vTint = grassTint;
         
         // Get instance matrix
         mat4 instanceMatrix = instanceMatrix;
@@ -366,8 +505,12 @@ export class GrassSystem {
         // Create rotation matrix for bending
         mat3 bendMatrix = rotateX(bend);
         
+        // Sprouting blades grow from nothing to full height, thickening a little as they go
+        float growth = easeOut(clamp((time - grassBirthTime) / growTime, 0.0, 1.0), 2.0);
+        
         // Apply bending transformation
         vec3 transformedPosition = position;
+        transformedPosition.xy *= vec2(mix(0.4, 1.0, growth), growth);
         transformedPosition = bendMatrix * transformedPosition;
         
         // Calculate normals for lighting
@@ -442,7 +585,6 @@ export class GrassSystem {
       uniform vec3 sunColor;
       uniform vec3 moonDirection;
       uniform vec3 moonColor;
-      uniform float grassDensity;
       
       varying vec2 vUv;
       varying vec3 vNormal;
@@ -450,12 +592,15 @@ export class GrassSystem {
       varying vec3 vWorldPosition;
       varying vec3 vTerrainNormal;
       varying float vViewDistance;
-      varying float vDensity;
+      varying vec3 vTint;
       
       // Constants for normal blending
       const float TERRAIN_NORMAL_BLEND_START = 20.0;
       const float TERRAIN_NORMAL_BLEND_END = 100.0;
       
+      // Ambient light left at the base of the blades
+      const float BASE_OCCLUSION = 0.6;
+      
       // Helper function for easing in
       float easeIn(float x, float power) {
         return pow(x, power);
@@ -467,7 +612,7 @@ export class GrassSystem {
         vec3 tipColour = vec3(0.5, 0.5, 0.1);     // Yellowish green at tip
         
         // Create a gradient from base to tip with improved shaping function
-        vec3 grassColor = mix(baseColour, tipColour, easeIn(vHeight, 4.0));
+        vec3 grassColor = mix(baseColour, tipColour, easeIn(vHeight, 4.0)) * vTint;
         
         // Blend the normal with the terrain normal depending on the distance
         // This improves the appearance at a distance
@@ -493,11 +638,8 @@ export class GrassSystem {
         // Use a smooth transition between day and night
         float dayFactor = smoothstep(-0.2, 0.2, sunSide - moonSide);
         
-        // Calculate ambient occlusion
-        // Use the density value passed from the vertex shader
-        // This creates darker areas where grass is denser
-        float aoForDensity = mix(1.0, 0.25, vDensity);
-        float ao = mix(aoForDensity, 1.0, easeIn(vHeight, 2.0));
+        // Calculate ambient occlusion, darker towards the base where the blades crowd together
+        float ao = mix(BASE_OCCLUSION, 1.0, easeIn(vHeight, 2.0));
         
         // Apply ambient occlusion to ambient lighting component
         float ambientLight = 0.2 * ao;
@@ -525,13 +667,18 @@ export class GrassSystem {
       this.grassGeometry.dispose();
     }
     
+    if (this.farGrassGeometry) {
+      this.farGrassGeometry.dispose();
+    }
+    
     if (this.grassMaterial) {
       this.grassMaterial.dispose();
     }
     
-    if (this.grassMesh && this.grassMesh.parent) {
-      this.grassMesh.parent.remove(this.grassMesh);
-    }
+    this.chunks.forEach(chunk => chunk.dispose());
+    this.chunks.clear();
+    this.vertexChunks.clear();
+    this.scene.remove(this.grassGroup);
     
     if (this.positionTarget) {
       this.positionTarget.dispose();
@@ -540,5 +687,40 @@ export class GrassSystem {
     if (this.computeMaterial) {
       this.computeMaterial.dispose();
     }
+    
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.pendingVertices.clear();
+    this.parkedVertices.clear();
+    this.events.clear();
+  }
+}
+
+// Key of the chunk a point belongs to: the face of the cube around the planet its direction points through,
+// and the cell of that face split into GRASS_CHUNK_DIVISIONS by GRASS_CHUNK_DIVISIONS
+function getChunkKey(position: THREE.Vector3): number {
+  const ax = Math.abs(position.x);
+  const ay = Math.abs(position.y);
+  const az = Math.abs(position.z);
+  
+  let face: number;
+  let u: number;
+  let v: number;
+  if (ax >= ay && ax >= az) {
+    face = position.x > 0 ? 0 : 1;
+    u = position.y / ax;
+    v = position.z / ax;
+  } else if (ay >= az) {
+    face = position.y > 0 ? 2 : 3;
+    u = position.x / ay;
+    v = position.z / ay;
+  } else {
+    face = position.z > 0 ? 4 : 5;
+    u = position.x / az;
+    v = position.y / az;
   }
+  
+  // u and v run from -1 to 1 across the face
+  const cell = (coordinate: number) =>
+    Math.min(GRASS_CHUNK_DIVISIONS - 1, Math.floor((coordinate + 1) / 2 * GRASS_CHUNK_DIVISIONS));
+  return (face * GRASS_CHUNK_DIVISIONS + cell(u)) * GRASS_CHUNK_DIVISIONS + cell(v);
 }
@@ -0,0 +1,187 @@
+import * as THREE from 'three';
+import { WorldSphere } from './sphere';
+import { SeededRandom, deriveSeed } from './utils/random';
+import { EventEmitter } from './utils/eventEmitter';
+
+// Storm spawning
+const MAX_STORMS = 3;
+const FIRST_STORM_DELAY = 30; // Seconds of calm at the start of a round
+const STORM_INTERVAL = 40; // Seconds between storms
+const MIN_SPAWN_DISTANCE = 25; // Storms rise at least this far from the player (along the surface)
+
+// Storm behaviour
+const STORM_RADIUS = 3; // Surface distance a storm withers around its center
+const STORM_SPEED = 2; // Units per second, slower than the player so it can be caught
+const STORM_TURN_RATE = 0.6; // Largest change of course per second (radians), for wandering
+const STORM_LIFETIME = 60; // Seconds before a storm blows itself out
+const STORM_HOVER_HEIGHT = 1.2; // Height of the storm cloud above the ground or water
+const WITHER_RATE = 1.5; // Chance per second (as a rate) for a covered vertex under a storm to wither
+const DOUSE_TIME = 1.5; // Seconds the player has to spend inside a storm to put it out
+const FADE_TIME = 3; // Seconds a storm takes to shrink away at the end of its life
+
+// Events emitted by HazardSystem
+export type HazardEvents = {
+  stormSpawned: undefined;
+  stormDoused: undefined;
+};
+
+// A drought storm roaming the surface
+interface Storm {
+  direction: THREE.Vector3; // Local direction of its center from the planet center
+  heading: THREE.Vector3; // Direction of travel, tangent to the surface
+  age: number; // Seconds since it rose
+  doused: number; // Seconds the player has spent inside it
+  spin: number; // Rotation of the cloud around its vertical axis
+  group: THREE.Group;
+}
+
+/**
+ * Drought storms that wander the planet and wither the grass beneath them.
+ * The player's water orb puts a storm out by staying inside it for a moment.
+ */
+export class HazardSystem {
+  readonly events = new EventEmitter<HazardEvents>();
+  private scene: THREE.Scene;
+  private worldSphere: WorldSphere;
+  private random: SeededRandom; // Seeded so storms rise in the same places on the same planet
+  private storms: Storm[] = [];
+  private timeUntilStorm: number = FIRST_STORM_DELAY;
+  private puffGeometry: THREE.SphereGeometry;
+  private puffMaterial: THREE.MeshStandardMaterial;
+
+  constructor(scene: THREE.Scene, worldSphere: WorldSphere, seed: number) {
+    this.scene = scene;
+    this.worldSphere = worldSphere;
+    this.random = new SeededRandom(deriveSeed(seed, 3));
+    this.puffGeometry = new THREE.SphereGeometry(0.8, 8, 8);
+    this.puffMaterial = new THREE.MeshStandardMaterial({
+      color: 0x8b5a2b, // Dusty brown
+      transparent: true,
+      opacity: 0.45,
+      emissive: 0x552200,
+      emissiveIntensity: 0.4,
+      depthWrite: false
+    });
+  }
+
+  // Advance the storms by dt seconds
+  update(playerPosition: THREE.Vector3, dt: number): void {
+    const playerDirection = this.worldSphere.getMesh().worldToLocal(playerPosition.clone()).normalize();
+
+    this.timeUntilStorm -= dt;
+    if (this.timeUntilStorm <= 0) {
+      this.timeUntilStorm = STORM_INTERVAL;
+      if (this.storms.length < MAX_STORMS) {
+        this.spawnStorm(playerDirection);
+      }
+    }
+
+    const witherChance = 1 - Math.exp(-WITHER_RATE * dt);
+    for (let i = this.storms.length - 1; i >= 0; i--) {
+      const storm = this.storms[i];
+      storm.age += dt;
+      this.moveStorm(storm, dt);
+
+      // The player's orb douses the storm while inside it
+      const playerDistance = playerDirection.angleTo(storm.direction) * this.worldSphere.getRadius();
+      if (playerDistance < STORM_RADIUS) {
+        storm.doused += dt;
+      }
+
+      if (storm.doused >= DOUSE_TIME || storm.age >= STORM_LIFETIME) {
+        if (storm.doused >= DOUSE_TIME) {
+          this.events.emit('stormDoused', undefined);
+        }
+        this.scene.remove(storm.group);
+        this.storms.splice(i, 1);
+        continue;
+      }
+
+      // Covered ground under the storm withers back to barren
+      this.worldSphere.findVerticesNear(storm.direction, STORM_RADIUS).forEach(vertex => {
+        if (this.worldSphere.isVertexVisited(vertex) && this.random.next() < witherChance) {
+          this.worldSphere.uncolorVertex(vertex);
+        }
+      });
+
+      this.placeStorm(storm, dt);
+    }
+  }
+
+  // Local directions of the storm centers, e.g. for the minimap
+  getStormDirections(): THREE.Vector3[] {
+    return this.storms.map(storm => storm.direction.clone());
+  }
+
+  dispose(): void {
+    this.storms.forEach(storm => this.scene.remove(storm.group));
+    this.storms = [];
+    this.puffGeometry.dispose();
+    this.puffMaterial.dispose();
+    this.events.clear();
+  }
+
+  // Raise a storm somewhere on land, away from the player
+  private spawnStorm(playerDirection: THREE.Vector3): void {
+    const direction = new THREE.Vector3();
+    for (let attempt = 0; attempt < 20; attempt++) {
+      // Uniform random direction on the sphere
+      const z = this.random.next() * 2 - 1;
+      const angle = this.random.next() * Math.PI * 2;
+      const ring = Math.sqrt(1 - z * z);
+      direction.set(ring * Math.cos(angle), ring * Math.sin(angle), z);
+
+      const distance = direction.angleTo(playerDirection) * this.worldSphere.getRadius();
+      if (distance >= MIN_SPAWN_DISTANCE && !this.worldSphere.isUnderwater(direction)) break;
+    }
+
+    // Any direction tangent to the surface to start with
+    const heading = new THREE.Vector3(0, 1, 0);
+    if (Math.abs(direction.y) > 0.99) heading.set(1, 0, 0);
+    heading.addScaledVector(direction, -heading.dot(direction)).normalize();
+
+    const group = new THREE.Group();
+    const puffCount = 6 + this.random.int(4);
+    for (let i = 0; i < puffCount; i++) {
+      const puff = new THREE.Mesh(this.puffGeometry, this.puffMaterial);
+      const puffAngle = this.random.next() * Math.PI * 2;
+      const puffRadius = this.random.next() * STORM_RADIUS * 0.6;
+      puff.position.set(Math.cos(puffAngle) * puffRadius, this.random.next() * 1.2, Math.sin(puffAngle) * puffRadius);
+      puff.scale.setScalar(0.7 + this.random.next() * 0.8);
+      group.add(puff);
+    }
+    this.scene.add(group);
+
+    const storm: Storm = { direction: direction.clone(), heading, age: 0, doused: 0, spin: 0, group };
+    this.placeStorm(storm, 0);
+    this.storms.push(storm);
+    this.events.emit('stormSpawned', undefined);
+  }
+
+  // Wander: turn a little at random, then travel along the great circle of the heading
+  private moveStorm(storm: Storm, dt: number): void {
+    const turn = (this.random.next() * 2 - 1) * STORM_TURN_RATE * dt;
+    storm.heading.applyAxisAngle(storm.direction, turn);
+
+    const angle = STORM_SPEED * dt / this.worldSphere.getRadius();
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const newDirection = storm.direction.clone().multiplyScalar(cos).addScaledVector(storm.heading, sin);
+    storm.heading.multiplyScalar(cos).addScaledVector(storm.direction, -sin);
+    storm.direction.copy(newDirection.normalize());
+    storm.heading.addScaledVector(storm.direction, -storm.heading.dot(storm.direction)).normalize();
+  }
+
+  // Put the storm cloud above the ground (or sea), spinning, shrinking as it is doused or dies out
+  private placeStorm(storm: Storm, dt: number): void {
+    const ground = Math.max(this.worldSphere.sampleHeight(storm.direction), this.worldSphere.getSeaLevel());
+    storm.group.position.copy(storm.direction).multiplyScalar(ground + STORM_HOVER_HEIGHT);
+    storm.group.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), storm.direction);
+
+    storm.spin += dt * 1.5;
+    storm.group.rotateY(storm.spin);
+
+    const fade = Math.min(1, (STORM_LIFETIME - storm.age) / FADE_TIME);
+    storm.group.scale.setScalar(Math.max(0.05, Math.min(fade, 1 - storm.doused / DOUSE_TIME)));
+  }
+}
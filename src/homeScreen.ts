@@ -1,4 +1,12 @@
 import * as THREE from 'three';
+import { SaveData } from './saveGame';
+import { formatDuration } from './utils/format';
+import { GAME_MODES, GameModeId } from './gameModes';
+import { LeaderboardEntry, exportLeaderboard, getImportedBests, getPersonalBests, importLeaderboard } from './leaderboard';
+import { PLANET_MESH_TYPES } from './sphere';
+
+// Personal bests (and imported bests) listed on the home screen
+const LEADERBOARD_ROWS_SHOWN = 8;
 
 export class HomeScreen {
   private scene: THREE.Scene;
@@ -7,6 +15,15 @@ export class HomeScreen {
   private sphere: THREE.Object3D; // Changed to Object3D to support both Mesh and LineSegments
   private container: HTMLElement | null;
   private homeScreen: HTMLElement | null;
+  private continueButton: HTMLButtonElement | null;
+  private continueDetails: HTMLElement | null;
+  private startButton: HTMLButtonElement | null;
+  private loadingStatus: HTMLElement | null;
+  private loadingBarFill: HTMLElement | null;
+  private loadingText: HTMLElement | null;
+  private assetsLoaded: boolean = false; // Games can't start before the assets are in
+  private animationFrameId: number | null = null; // Pending requestAnimationFrame, cancelled when hidden
+  private selectedMode: GameModeId = 'zen';
 
   constructor() {
     this.scene = new THREE.Scene();
@@ -15,6 +32,12 @@ export class HomeScreen {
     this.sphere = new THREE.Mesh();
     this.container = document.getElementById('sphere-container');
     this.homeScreen = document.getElementById('home-screen');
+    this.continueButton = document.getElementById('continue-button') as HTMLButtonElement | null;
+    this.continueDetails = document.getElementById('continue-details');
+    this.startButton = document.getElementById('start-button') as HTMLButtonElement | null;
+    this.loadingStatus = document.getElementById('loading-status');
+    this.loadingBarFill = document.getElementById('loading-bar-fill');
+    this.loadingText = document.getElementById('loading-text');
   }
 
   init(): void {
@@ -70,6 +93,10 @@ export class HomeScreen {
     // Position camera
     this.camera.position.z = 5;
 
+    // Set up game mode selection and the leaderboard
+    this.setupModeSelect();
+    this.renderLeaderboard();
+
     // Handle window resize
     window.addEventListener('resize', this.onWindowResize.bind(this));
 
@@ -78,7 +105,7 @@ export class HomeScreen {
   }
 
   animate(): void {
-    requestAnimationFrame(this.animate.bind(this));
+    this.animationFrameId = requestAnimationFrame(() => this.animate());
 
     // Rotate sphere
     this.sphere.rotation.x += 0.005;
@@ -93,11 +120,193 @@ export class HomeScreen {
     this.renderer.setSize(window.innerWidth, window.innerHeight);
   }
 
+  getSelectedMode(): GameModeId {
+    return this.selectedMode;
+  }
+
+  // Create a button per game mode, the selected one is highlighted and described below
+  private setupModeSelect(): void {
+    const modeSelect = document.getElementById('mode-select');
+    const modeDescription = document.getElementById('mode-description');
+    if (!modeSelect) return;
+
+    const buttons: HTMLButtonElement[] = [];
+    const select = (id: GameModeId) => {
+      this.selectedMode = id;
+      buttons.forEach(button => button.classList.toggle('selected', button.dataset.mode === id));
+      const mode = GAME_MODES.find(m => m.id === id);
+      if (modeDescription && mode) {
+        modeDescription.textContent = mode.description;
+      }
+    };
+
+    GAME_MODES.forEach(mode => {
+      const button = document.createElement('button');
+      button.className = 'mode-option';
+      button.dataset.mode = mode.id;
+      button.textContent = mode.name;
+      button.addEventListener('click', () => select(mode.id));
+      modeSelect.appendChild(button);
+      buttons.push(button);
+    });
+
+    select(this.selectedMode);
+  }
+
+  // Show the personal best of every seed/mode/mesh, the imported bests apart from them, with import and export buttons
+  renderLeaderboard(): void {
+    const leaderboard = document.getElementById('leaderboard');
+    if (!leaderboard) return;
+    leaderboard.innerHTML = '';
+
+    const bests = getPersonalBests();
+    const importedBests = getImportedBests();
+    this.renderBests(leaderboard, 'Personal Bests', bests);
+    this.renderBests(leaderboard, 'Imported Scores', importedBests);
+
+    // Import/export so runs can be compared between players
+    const actions = document.createElement('div');
+    actions.id = 'leaderboard-actions';
+
+    const exportButton = document.createElement('button');
+    exportButton.textContent = 'Export Scores';
+    exportButton.disabled = bests.length === 0 && importedBests.length === 0;
+    exportButton.addEventListener('click', () => exportLeaderboard());
+
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = 'application/json,.json';
+    fileInput.style.display = 'none';
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = ''; // Allow importing the same file again
+      if (!file) return;
+      importLeaderboard(file)
+        .then(added => {
+          console.log(`Imported ${added} leaderboard entries`);
+          this.renderLeaderboard();
+        })
+        .catch((error: Error) => {
+          console.error('Failed to import leaderboard:', error);
+          window.alert(`Could not import scores: ${error.message}`);
+        });
+    });
+
+    const importButton = document.createElement('button');
+    importButton.textContent = 'Import Scores';
+    importButton.addEventListener('click', () => fileInput.click());
+
+    actions.appendChild(exportButton);
+    actions.appendChild(importButton);
+    actions.appendChild(fileInput);
+    leaderboard.appendChild(actions);
+  }
+
+  // Add a titled table of board bests, nothing if there are none
+  private renderBests(leaderboard: HTMLElement, titleText: string, bests: LeaderboardEntry[]): void {
+    if (bests.length === 0) return;
+
+    const title = document.createElement('div');
+    title.textContent = titleText;
+    title.style.fontWeight = 'bold';
+    title.style.fontSize = '16px';
+    title.style.textAlign = 'center';
+    title.style.marginTop = '8px';
+    title.style.marginBottom = '4px';
+    leaderboard.appendChild(title);
+
+    const table = document.createElement('table');
+    const header = table.insertRow();
+    ['Mode', 'Seed', 'Planet', 'Score', 'Coverage', 'Date'].forEach(text => {
+      const cell = document.createElement('th');
+      cell.textContent = text;
+      header.appendChild(cell);
+    });
+
+    bests.slice(0, LEADERBOARD_ROWS_SHOWN).forEach(entry => {
+      const row = table.insertRow();
+      [
+        GAME_MODES.find(mode => mode.id === entry.modeId)?.name ?? entry.modeId,
+        String(entry.seed),
+        PLANET_MESH_TYPES.find(type => type.id === entry.meshType)?.name ?? entry.meshType,
+        entry.formattedScore,
+        `${entry.coverage.toFixed(1)}%`,
+        new Date(entry.date).toLocaleDateString()
+      ].forEach(text => {
+        row.insertCell().textContent = text;
+      });
+    });
+    leaderboard.appendChild(table);
+  }
+
+  // Show how far the asset loading got (0-1)
+  setLoadingProgress(fraction: number): void {
+    if (this.loadingBarFill) {
+      this.loadingBarFill.style.width = `${Math.round(fraction * 100)}%`;
+    }
+    if (this.loadingText) {
+      this.loadingText.textContent = `Loading... ${Math.round(fraction * 100)}%`;
+    }
+  }
+
+  // Hide the progress bar and let games start, failed assets are mentioned as they were replaced by stand-ins
+  setLoadingComplete(failedCount: number): void {
+    this.assetsLoaded = true;
+    if (this.startButton) {
+      this.startButton.disabled = false;
+    }
+    if (this.continueButton) {
+      this.continueButton.disabled = false;
+    }
+
+    if (!this.loadingStatus) return;
+    if (failedCount > 0 && this.loadingText) {
+      this.loadingText.textContent = `${failedCount} asset${failedCount === 1 ? '' : 's'} failed to load, using stand-ins`;
+      const bar = document.getElementById('loading-bar');
+      if (bar) {
+        bar.style.display = 'none';
+      }
+    } else {
+      this.loadingStatus.style.display = 'none';
+    }
+  }
+
+  // Show the "Continue" option for a saved planet, or hide it when there is no save
+  showContinue(save: SaveData | null): void {
+    if (this.continueButton) {
+      this.continueButton.style.display = save ? 'block' : 'none';
+      this.continueButton.disabled = !this.assetsLoaded;
+    }
+    
+    if (this.continueDetails) {
+      this.continueDetails.style.display = save ? 'block' : 'none';
+      if (save) {
+        const savedAt = new Date(save.savedAt).toLocaleString();
+        const modeName = GAME_MODES.find(mode => mode.id === save.modeId)?.name ?? 'Zen';
+        this.continueDetails.textContent =
+          `${modeName} · Seed ${save.seed} · ${formatDuration(save.elapsedTime)} played · saved ${savedAt}`;
+      }
+    }
+  }
+
+  show(): void {
+    if (this.homeScreen) {
+      this.homeScreen.style.display = 'flex';
+    }
+    // Resume rendering the home screen
+    if (this.animationFrameId === null) {
+      this.animate();
+    }
+  }
+
   hide(): void {
     if (this.homeScreen) {
       this.homeScreen.style.display = 'none';
     }
     // Stop rendering the home screen
-    this.renderer.setAnimationLoop(null);
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
   }
 }
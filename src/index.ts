@@ -1,32 +1,103 @@
 import { HomeScreen } from './homeScreen';
 import { Game } from './game';
+import { parseSeed, randomSeed } from './utils/random';
+import { SaveData, loadGame } from './saveGame';
+import { GameModeId } from './gameModes';
+import { PlanetMeshType } from './sphere';
+import { SettingsScreen } from './settingsScreen';
+import { GameAssets, loadAssets } from './assets';
 
 // Development flag - set to true to skip home screen
 const DEV_MODE = false;
 
+// Use the seed from the URL (?seed=...) for the first new game so a shared link replays the same planet
+const seedParam = new URLSearchParams(window.location.search).get('seed');
+let sharedSeed: number | null = seedParam ? parseSeed(seedParam) : null;
+
+// Seed for a new game: the shared one if it hasn't been played yet, otherwise a fresh planet
+function nextSeed(): number {
+  const seed = sharedSeed ?? randomSeed();
+  sharedSeed = null;
+  return seed;
+}
+
 // Initialize the game
 let game: Game | null = null;
+let homeScreen: HomeScreen | null = null;
+let assets: GameAssets | null = null; // Loaded once, shared by every game
+
+// Build a fresh game (optionally from a save) and start it, replacing any running game
+function startGame(gameSeed: number, mode: GameModeId, save: SaveData | null = null, meshType?: PlanetMeshType): void {
+  if (!assets) return;
+  if (game) {
+    game.dispose();
+  }
+  
+  homeScreen?.hide();
+  const newGame = new Game({ assets, seed: gameSeed, mode, save, meshType });
+  game = newGame;
+  
+  // Restart rebuilds the same planet from scratch in the same mode, with the mesh it was built with
+  // (not the mesh setting, the run may have come from an older save or the setting changed since)
+  newGame.events.on('restart', () => startGame(gameSeed, newGame.getModeId(), null, newGame.getMeshType()));
+  newGame.events.on('quit', quitToHome);
+  
+  newGame.start();
+  document.getElementById('ui-container')!.style.display = 'block';
+}
+
+// Tear down the running game and bring the home screen back
+function quitToHome(): void {
+  if (game) {
+    game.dispose();
+    game = null;
+  }
+  
+  document.getElementById('ui-container')!.style.display = 'none';
+  if (homeScreen) {
+    homeScreen.showContinue(loadGame());
+    homeScreen.renderLeaderboard();
+    homeScreen.show();
+  }
+}
 
 if (DEV_MODE) {
   // Skip home screen in development mode
   document.getElementById('home-screen')!.style.display = 'none';
-  game = new Game();
-  game.start();
-  document.getElementById('ui-container')!.style.display = 'block';
+  loadAssets(() => {}).then(loaded => {
+    assets = loaded;
+    startGame(nextSeed(), 'zen');
+  });
 } else {
   // Show home screen in normal mode
-  const homeScreen = new HomeScreen();
+  homeScreen = new HomeScreen();
   
   // Start the game when the start button is clicked
   document.getElementById('start-button')?.addEventListener('click', () => {
-    homeScreen.hide();
-    if (!game) {
-      game = new Game();
-    }
-    game.start();
-    document.getElementById('ui-container')!.style.display = 'block';
+    startGame(nextSeed(), homeScreen!.getSelectedMode());
+  });
+
+  // Resume the saved planet when the continue button is clicked
+  document.getElementById('continue-button')?.addEventListener('click', () => {
+    const save = loadGame();
+    startGame(save ? save.seed : nextSeed(), save ? save.modeId : homeScreen!.getSelectedMode(), save);
   });
 
+  // Controls can be rebound before playing, games read the stored settings when they start
+  const settingsScreen = new SettingsScreen();
+  document.getElementById('settings-button')?.addEventListener('click', () => {
+    settingsScreen.show(() => {});
+  });
+
+  // Offer to continue if there is a saved planet
+  homeScreen.showContinue(loadGame());
+
   // Initialize the home screen
   homeScreen.init();
+
+  // Load textures and music while the home screen is up, the start buttons unlock once they are in
+  loadAssets(fraction => homeScreen!.setLoadingProgress(fraction)).then(loaded => {
+    assets = loaded;
+    homeScreen!.setLoadingComplete(loaded.failed.length);
+  });
 }
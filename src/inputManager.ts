@@ -0,0 +1,321 @@
+import * as THREE from 'three';
+import { EventEmitter } from './utils/eventEmitter';
+import { VirtualJoystick } from './virtualJoystick';
+import { CONTROL_ACTIONS, ControlAction, KeyBindings } from './settings';
+
+// Stick deflection below this is ignored, so worn sticks don't drift
+const GAMEPAD_DEADZONE = 0.15;
+
+// Standard gamepad mapping index of the Start button
+const GAMEPAD_START_BUTTON = 9;
+
+// Pixels a wheel "line" scrolls, for browsers reporting wheel deltas in lines
+const WHEEL_LINE_HEIGHT = 16;
+
+// Events emitted by InputManager
+export type InputEvents = {
+  pause: undefined; // Pause was requested (pause key, gamepad Start or the on-screen button)
+  press: ControlAction; // A bound key was pressed (not sent again for key repeats)
+};
+
+/**
+ * Combines keyboard, gamepad and touch input into one analog move vector,
+ * plus camera look and zoom input from the keyboard, right stick, mouse drags and the wheel
+ */
+export class InputManager {
+  readonly events = new EventEmitter<InputEvents>();
+  private actionsByKey: Map<string, ControlAction[]> = new Map(); // Reverse lookup of the key bindings
+  private heldActions: Set<ControlAction> = new Set(); // Actions whose key is held
+  private heldKeys: Set<string> = new Set();
+  private joystick: VirtualJoystick | null = null;
+  private pauseButton: HTMLElement | null = null;
+  private startButtonWasPressed: boolean = false; // For detecting gamepad Start presses
+  private pollFrameId: number | null = null; // Gamepad polling loop, runs while attached (also when paused)
+  private attached: boolean = false;
+  private lookElement: HTMLElement; // Dragging on this element turns the camera
+  private lookPointerId: number | null = null;
+  private lastPointer: THREE.Vector2 = new THREE.Vector2();
+  private lookDelta: THREE.Vector2 = new THREE.Vector2(); // Pixels dragged since last consumed
+  private zoomDelta: number = 0; // Wheel pixels scrolled since last consumed
+
+  constructor(bindings: KeyBindings, lookElement: HTMLElement) {
+    this.lookElement = lookElement;
+    this.lookElement.style.touchAction = 'none'; // Dragging turns the camera instead of scrolling
+    this.setBindings(bindings);
+
+    // Touch devices get an on-screen joystick and pause button
+    if (VirtualJoystick.isSupported()) {
+      this.joystick = new VirtualJoystick();
+      this.pauseButton = this.createPauseButton();
+    }
+  }
+
+  // Use new key bindings, e.g. after they were changed in the settings screen
+  setBindings(bindings: KeyBindings): void {
+    this.actionsByKey.clear();
+    CONTROL_ACTIONS.forEach(({ action }) => {
+      bindings[action].forEach(key => {
+        if (!key) return;
+        const actions = this.actionsByKey.get(key) ?? [];
+        actions.push(action);
+        this.actionsByKey.set(key, actions);
+      });
+    });
+    this.reset();
+  }
+
+  // Start listening for input
+  attach(): void {
+    if (this.attached) return;
+    this.attached = true;
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('blur', this.handleBlur);
+    this.lookElement.addEventListener('pointerdown', this.handlePointerDown);
+    this.lookElement.addEventListener('pointermove', this.handlePointerMove);
+    this.lookElement.addEventListener('pointerup', this.handlePointerUp);
+    this.lookElement.addEventListener('pointercancel', this.handlePointerUp);
+    this.lookElement.addEventListener('wheel', this.handleWheel, { passive: false });
+    this.lookElement.addEventListener('contextmenu', this.handleContextMenu);
+    this.setTouchControlsVisible(true);
+    this.pollGamepad();
+  }
+
+  // Stop listening for input and forget anything held
+  detach(): void {
+    if (!this.attached) return;
+    this.attached = false;
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('blur', this.handleBlur);
+    this.lookElement.removeEventListener('pointerdown', this.handlePointerDown);
+    this.lookElement.removeEventListener('pointermove', this.handlePointerMove);
+    this.lookElement.removeEventListener('pointerup', this.handlePointerUp);
+    this.lookElement.removeEventListener('pointercancel', this.handlePointerUp);
+    this.lookElement.removeEventListener('wheel', this.handleWheel);
+    this.lookElement.removeEventListener('contextmenu', this.handleContextMenu);
+    this.setTouchControlsVisible(false);
+    if (this.pollFrameId !== null) {
+      cancelAnimationFrame(this.pollFrameId);
+      this.pollFrameId = null;
+    }
+    this.reset();
+  }
+
+  // Forget held keys and stick positions (e.g. when pausing) so the player doesn't keep moving
+  reset(): void {
+    this.heldActions.clear();
+    this.heldKeys.clear();
+    this.joystick?.reset();
+    this.lookPointerId = null;
+    this.lookDelta.set(0, 0);
+    this.zoomDelta = 0;
+  }
+
+  isHeld(action: ControlAction): boolean {
+    return this.heldActions.has(action);
+  }
+
+  // Get the combined move vector (x = right, y = forward) with length <= 1
+  getMoveVector(): THREE.Vector2 {
+    const move = new THREE.Vector2();
+
+    // Keyboard gives full deflection in each held direction
+    if (this.heldActions.has('moveForward')) move.y += 1;
+    if (this.heldActions.has('moveBack')) move.y -= 1;
+    if (this.heldActions.has('moveRight')) move.x += 1;
+    if (this.heldActions.has('moveLeft')) move.x -= 1;
+
+    // Gamepad left stick (its y axis points down)
+    const gamepad = this.getGamepad();
+    if (gamepad && gamepad.axes.length >= 2) {
+      const stick = new THREE.Vector2(gamepad.axes[0], -gamepad.axes[1]);
+      move.add(this.applyDeadzone(stick));
+    }
+
+    // On-screen joystick
+    if (this.joystick) {
+      move.add(this.joystick.getValue());
+    }
+
+    // Several sources at once shouldn't move faster than one at full deflection
+    if (move.length() > 1) {
+      move.normalize();
+    }
+    return move;
+  }
+
+  // Get the held camera turn rate (x = right, y = up) from keys and the gamepad right stick, length <= 1
+  getLookVector(): THREE.Vector2 {
+    const look = new THREE.Vector2();
+    if (this.heldActions.has('cameraRight')) look.x += 1;
+    if (this.heldActions.has('cameraLeft')) look.x -= 1;
+    if (this.heldActions.has('cameraUp')) look.y += 1;
+    if (this.heldActions.has('cameraDown')) look.y -= 1;
+
+    // Gamepad right stick
+    const gamepad = this.getGamepad();
+    if (gamepad && gamepad.axes.length >= 4) {
+      const stick = new THREE.Vector2(gamepad.axes[2], -gamepad.axes[3]);
+      look.add(this.applyDeadzone(stick));
+    }
+
+    if (look.length() > 1) {
+      look.normalize();
+    }
+    return look;
+  }
+
+  // Get the held zoom direction from keys, positive zooms in
+  getZoomInput(): number {
+    return (this.heldActions.has('zoomIn') ? 1 : 0) - (this.heldActions.has('zoomOut') ? 1 : 0);
+  }
+
+  // Take the pixels dragged since the last call (x = right, y = down)
+  consumeLookDelta(): THREE.Vector2 {
+    const delta = this.lookDelta.clone();
+    this.lookDelta.set(0, 0);
+    return delta;
+  }
+
+  // Take the wheel pixels scrolled since the last call, positive zooms out
+  consumeZoomDelta(): number {
+    const delta = this.zoomDelta;
+    this.zoomDelta = 0;
+    return delta;
+  }
+
+  dispose(): void {
+    this.detach();
+    this.events.clear();
+    this.joystick?.dispose();
+    this.pauseButton?.remove();
+  }
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    const key = event.key.toLowerCase();
+    const actions = this.actionsByKey.get(key);
+    if (!actions) return;
+    event.preventDefault(); // Keep arrow keys and space from scrolling the page
+
+    // Presses fire once per key press, movement and camera actions are also held
+    if (!event.repeat) {
+      if (actions.includes('pause')) {
+        this.events.emit('pause', undefined);
+      }
+      actions.forEach(action => this.events.emit('press', action));
+    }
+    this.heldKeys.add(key);
+    actions.forEach(action => this.heldActions.add(action));
+  };
+
+  private handleKeyUp = (event: KeyboardEvent): void => {
+    const key = event.key.toLowerCase();
+    const actions = this.actionsByKey.get(key);
+    if (!actions) return;
+
+    this.heldKeys.delete(key);
+    // An action stays held while another key bound to it is still down
+    actions.forEach(action => {
+      const stillHeld = Array.from(this.heldKeys).some(held => this.actionsByKey.get(held)?.includes(action));
+      if (!stillHeld) {
+        this.heldActions.delete(action);
+      }
+    });
+  };
+
+  // Key up events are lost when the window loses focus, so release everything
+  private handleBlur = (): void => {
+    this.reset();
+  };
+
+  private handlePointerDown = (event: PointerEvent): void => {
+    if (this.lookPointerId !== null || (event.button !== 0 && event.button !== 2)) return;
+    this.lookPointerId = event.pointerId;
+    this.lastPointer.set(event.clientX, event.clientY);
+    this.lookElement.setPointerCapture(event.pointerId);
+  };
+
+  private handlePointerMove = (event: PointerEvent): void => {
+    if (event.pointerId !== this.lookPointerId) return;
+    this.lookDelta.x += event.clientX - this.lastPointer.x;
+    this.lookDelta.y += event.clientY - this.lastPointer.y;
+    this.lastPointer.set(event.clientX, event.clientY);
+  };
+
+  private handlePointerUp = (event: PointerEvent): void => {
+    if (event.pointerId !== this.lookPointerId) return;
+    this.lookPointerId = null;
+  };
+
+  private handleWheel = (event: WheelEvent): void => {
+    event.preventDefault(); // Keep the page from scrolling or zooming
+    this.zoomDelta += event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * WHEEL_LINE_HEIGHT : event.deltaY;
+  };
+
+  // Right-button drags turn the camera too, so don't open the context menu
+  private handleContextMenu = (event: MouseEvent): void => {
+    event.preventDefault();
+  };
+
+  // Gamepads don't send button events, so watch the Start button every frame
+  private pollGamepad = (): void => {
+    this.pollFrameId = requestAnimationFrame(this.pollGamepad);
+
+    const gamepad = this.getGamepad();
+    const startPressed = gamepad ? !!gamepad.buttons[GAMEPAD_START_BUTTON]?.pressed : false;
+    if (startPressed && !this.startButtonWasPressed) {
+      this.events.emit('pause', undefined);
+    }
+    this.startButtonWasPressed = startPressed;
+  };
+
+  private getGamepad(): Gamepad | null {
+    if (!navigator.getGamepads) return null;
+    const gamepads = navigator.getGamepads();
+    for (const gamepad of gamepads) {
+      if (gamepad && gamepad.connected) {
+        return gamepad;
+      }
+    }
+    return null;
+  }
+
+  // Radial deadzone, rescaled so deflection still starts at 0 just outside it
+  private applyDeadzone(stick: THREE.Vector2): THREE.Vector2 {
+    const length = stick.length();
+    if (length < GAMEPAD_DEADZONE) {
+      return stick.set(0, 0);
+    }
+    const scaled = Math.min(1, (length - GAMEPAD_DEADZONE) / (1 - GAMEPAD_DEADZONE));
+    return stick.multiplyScalar(scaled / length);
+  }
+
+  private createPauseButton(): HTMLElement {
+    const button = document.createElement('button');
+    button.id = 'touch-pause-button';
+    button.textContent = 'II';
+    button.style.position = 'absolute';
+    button.style.top = '20px';
+    button.style.left = '20px';
+    button.style.width = '44px';
+    button.style.height = '44px';
+    button.style.fontSize = '18px';
+    button.style.fontWeight = 'bold';
+    button.style.color = 'white';
+    button.style.backgroundColor = 'rgba(0, 0, 0, 0.6)';
+    button.style.border = 'none';
+    button.style.borderRadius = '50%';
+    button.style.zIndex = '9999';
+    button.addEventListener('click', () => this.events.emit('pause', undefined));
+    document.body.appendChild(button);
+    return button;
+  }
+
+  private setTouchControlsVisible(visible: boolean): void {
+    this.joystick?.setVisible(visible);
+    if (this.pauseButton) {
+      this.pauseButton.style.display = visible ? 'block' : 'none';
+    }
+  }
+}
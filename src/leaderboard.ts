@@ -0,0 +1,213 @@
+import { RoundSummary } from './game';
+import { GameModeId, isGameModeId } from './gameModes';
+import { PlanetMeshType, isPlanetMeshType } from './sphere';
+
+// Storage key and format version for the leaderboard
+const LEADERBOARD_KEY = 'green-sphere-leaderboard';
+const LEADERBOARD_VERSION = 1;
+
+// Best runs kept for each seed, mode and planet mesh
+const MAX_ENTRIES_PER_BOARD = 10;
+
+// A finished round on the leaderboard
+export interface LeaderboardEntry {
+  seed: number;
+  modeId: GameModeId;
+  meshType: PlanetMeshType; // The same seed builds a different planet with every mesh type
+  score: number; // Raw score as decided by the mode
+  formattedScore: string;
+  higherIsBetter: boolean;
+  elapsedTime: number; // Seconds taken to finish the round
+  coverage: number; // Final coverage in percent
+  date: number; // Unix time in milliseconds
+  imported: boolean; // Came from an imported leaderboard file rather than played here
+}
+
+// Where a newly recorded round landed
+export interface RecordResult {
+  rank: number; // 1-based position on its board, 0 if it didn't make the board
+  isPersonalBest: boolean;
+}
+
+// An entry as stored, files written before a field existed don't have it
+type StoredEntry = Omit<LeaderboardEntry, 'meshType' | 'imported'> & {
+  meshType?: PlanetMeshType; // Missing in entries from before other planet meshes existed, those were all UV spheres
+  imported?: boolean;
+};
+
+// Shape of the leaderboard as stored in localStorage and in exported files
+interface StoredLeaderboard {
+  version: number;
+  entries: StoredEntry[];
+}
+
+// Record a finished round, returns its rank on the seed/mode/mesh board
+export function recordRound(summary: RoundSummary): RecordResult {
+  const entry: LeaderboardEntry = {
+    seed: summary.seed,
+    modeId: summary.modeId,
+    meshType: summary.meshType,
+    score: summary.score.value,
+    formattedScore: summary.score.formatted,
+    higherIsBetter: summary.score.higherIsBetter,
+    elapsedTime: summary.elapsedTime,
+    coverage: summary.coverage,
+    date: Date.now(),
+    imported: false
+  };
+
+  const previousBest = getPersonalBest(entry.seed, entry.modeId, entry.meshType);
+  const entries = mergeEntries(loadEntries(), [entry]);
+  saveEntries(entries);
+
+  const board = getEntries(entry.seed, entry.modeId, entry.meshType);
+  const index = board.findIndex(e => e.date === entry.date && e.score === entry.score);
+  return {
+    rank: index + 1,
+    isPersonalBest: !previousBest || compareEntries(entry, previousBest) < 0
+  };
+}
+
+// Get the entries of one seed/mode/mesh board, best first, imported ones included
+export function getEntries(seed: number, modeId: GameModeId, meshType: PlanetMeshType): LeaderboardEntry[] {
+  return loadEntries()
+    .filter(entry => entry.seed === seed && entry.modeId === modeId && entry.meshType === meshType)
+    .sort(compareEntries);
+}
+
+// Best run played here on a board, imported runs aren't personal
+export function getPersonalBest(seed: number, modeId: GameModeId, meshType: PlanetMeshType): LeaderboardEntry | null {
+  return getEntries(seed, modeId, meshType).find(entry => !entry.imported) ?? null;
+}
+
+// Get the best run played here on every board, most recent first
+export function getPersonalBests(): LeaderboardEntry[] {
+  return getBests(loadEntries().filter(entry => !entry.imported));
+}
+
+// Get the best imported run on every board, most recent first
+export function getImportedBests(): LeaderboardEntry[] {
+  return getBests(loadEntries().filter(entry => entry.imported));
+}
+
+// Download the whole leaderboard as a JSON file
+export function exportLeaderboard(): void {
+  const stored: StoredLeaderboard = { version: LEADERBOARD_VERSION, entries: loadEntries() };
+  const blob = new Blob([JSON.stringify(stored, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'green-sphere-leaderboard.json';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// Merge the entries of an exported leaderboard file into ours, returns how many were new
+export async function importLeaderboard(file: File): Promise<number> {
+  const parsed = JSON.parse(await file.text()) as Partial<StoredLeaderboard>;
+  if (parsed.version !== LEADERBOARD_VERSION || !Array.isArray(parsed.entries)) {
+    throw new Error('Not a Green Sphere leaderboard file');
+  }
+
+  // Marked so they can be told apart from runs played here, also when this file is exported again
+  const imported = parsed.entries.filter(isValidEntry).map(entry => ({ ...toEntry(entry), imported: true }));
+  const existing = loadEntries();
+  const merged = mergeEntries(existing, imported);
+  saveEntries(merged);
+  return Math.max(0, merged.length - existing.length);
+}
+
+function loadEntries(): LeaderboardEntry[] {
+  try {
+    const raw = window.localStorage.getItem(LEADERBOARD_KEY);
+    if (!raw) return [];
+    const stored = JSON.parse(raw) as StoredLeaderboard;
+    if (stored.version !== LEADERBOARD_VERSION || !Array.isArray(stored.entries)) return [];
+    return stored.entries.filter(isValidEntry).map(toEntry);
+  } catch (error) {
+    console.error('Failed to read leaderboard:', error);
+    return [];
+  }
+}
+
+function saveEntries(entries: LeaderboardEntry[]): void {
+  try {
+    const stored: StoredLeaderboard = { version: LEADERBOARD_VERSION, entries };
+    window.localStorage.setItem(LEADERBOARD_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error('Failed to save leaderboard:', error);
+  }
+}
+
+// Add entries, dropping duplicates and trimming every board to its best entries
+function mergeEntries(existing: LeaderboardEntry[], added: LeaderboardEntry[]): LeaderboardEntry[] {
+  const boards = new Map<string, LeaderboardEntry[]>();
+  const seen = new Set<string>();
+
+  [...existing, ...added].forEach(entry => {
+    const key = boardKey(entry.seed, entry.modeId, entry.meshType);
+    const id = `${key}:${entry.date}:${entry.score}`;
+    if (seen.has(id)) return;
+    seen.add(id);
+
+    const board = boards.get(key) ?? [];
+    board.push(entry);
+    boards.set(key, board);
+  });
+
+  const merged: LeaderboardEntry[] = [];
+  boards.forEach(board => {
+    merged.push(...board.sort(compareEntries).slice(0, MAX_ENTRIES_PER_BOARD));
+  });
+  return merged;
+}
+
+// Best entry of every board among entries, most recent first
+function getBests(entries: LeaderboardEntry[]): LeaderboardEntry[] {
+  const bests = new Map<string, LeaderboardEntry>();
+  entries.forEach(entry => {
+    const key = boardKey(entry.seed, entry.modeId, entry.meshType);
+    const best = bests.get(key);
+    if (!best || compareEntries(entry, best) < 0) {
+      bests.set(key, entry);
+    }
+  });
+  return Array.from(bests.values()).sort((a, b) => b.date - a.date);
+}
+
+// Sort order for entries of the same board: better score first, earlier date breaks ties
+function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry): number {
+  if (a.score !== b.score) {
+    return a.higherIsBetter ? b.score - a.score : a.score - b.score;
+  }
+  return a.date - b.date;
+}
+
+function boardKey(seed: number, modeId: GameModeId, meshType: PlanetMeshType): string {
+  return `${seed}:${modeId}:${meshType}`;
+}
+
+// Fill in the fields older entries don't have
+function toEntry(stored: StoredEntry): LeaderboardEntry {
+  return { ...stored, meshType: stored.meshType ?? 'uv', imported: stored.imported ?? false };
+}
+
+function isValidEntry(entry: unknown): entry is StoredEntry {
+  const e = entry as StoredEntry;
+  return (
+    typeof e === 'object' && e !== null &&
+    typeof e.seed === 'number' &&
+    isGameModeId(e.modeId) &&
+    (e.meshType === undefined || isPlanetMeshType(e.meshType)) &&
+    typeof e.score === 'number' &&
+    typeof e.formattedScore === 'string' &&
+    typeof e.higherIsBetter === 'boolean' &&
+    typeof e.elapsedTime === 'number' &&
+    typeof e.coverage === 'number' &&
+    typeof e.date === 'number' &&
+    (e.imported === undefined || typeof e.imported === 'boolean')
+  );
+}
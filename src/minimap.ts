@@ -0,0 +1,303 @@
+import * as THREE from 'three';
+import { WorldSphere } from './sphere';
+import { Player } from './player';
+
+// Size of the equirectangular map in pixels (longitude x latitude)
+const MAP_WIDTH = 256;
+const MAP_HEIGHT = 128;
+
+// How often the map is redrawn from the vertex colors (in seconds), the player marker moves every frame
+const REFRESH_INTERVAL = 0.25;
+
+// Barren regions are found on a grid of cells this many map pixels wide
+const REGION_CELL_SIZE = 8;
+
+// A cell counts as barren when at least this fraction of it is unvisited
+const BARREN_CELL_THRESHOLD = 0.9;
+
+// Smallest barren region worth pointing out, as a fraction of the planet's surface
+const MIN_REGION_AREA = 0.01;
+
+/**
+ * HUD map of the planet in equirectangular projection, centered on the player's longitude.
+ * Drawn from the planet's vertex colors, with the player and optionally the nearest large barren region marked.
+ */
+export class Minimap {
+  private worldSphere: WorldSphere;
+  private container: HTMLElement;
+  private canvas: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D | null;
+  private hintText: HTMLElement;
+  private mapCanvas: HTMLCanvasElement; // Offscreen full map, scrolled to the player when drawn
+  private mapContext: CanvasRenderingContext2D | null;
+  private mapImage: ImageData | null;
+  private pixelVertices: Int32Array; // Vertex nearest to the center of each map pixel
+  private barrenCells: Float32Array; // Unvisited fraction of each region cell
+  private timeSinceRefresh: number = REFRESH_INTERVAL;
+  private showHint: boolean;
+  private barrenTarget: THREE.Vector3 | null = null; // Local direction of the nearest large barren region
+  private hazards: THREE.Vector3[] = []; // Local directions of hazards to mark
+
+  constructor(worldSphere: WorldSphere, showHint: boolean) {
+    this.worldSphere = worldSphere;
+    this.showHint = showHint;
+
+    // Container in the bottom-right corner, clear of the touch joystick
+    this.container = document.createElement('div');
+    this.container.id = 'minimap';
+    this.container.style.position = 'absolute';
+    this.container.style.right = '20px';
+    this.container.style.bottom = '20px';
+    this.container.style.padding = '8px';
+    this.container.style.backgroundColor = 'rgba(0, 0, 0, 0.8)';
+    this.container.style.borderRadius = '10px';
+    this.container.style.boxShadow = '0 2px 10px rgba(0, 0, 0, 0.5)';
+    this.container.style.color = 'white';
+    this.container.style.fontFamily = 'Arial, sans-serif';
+    this.container.style.fontSize = '12px';
+    this.container.style.textAlign = 'center';
+    this.container.style.zIndex = '9999';
+    this.container.style.pointerEvents = 'none';
+
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = MAP_WIDTH;
+    this.canvas.height = MAP_HEIGHT;
+    this.canvas.style.display = 'block';
+    this.canvas.style.width = `${MAP_WIDTH}px`;
+    this.canvas.style.height = `${MAP_HEIGHT}px`;
+    this.canvas.style.borderRadius = '5px';
+    this.context = this.canvas.getContext('2d');
+
+    this.hintText = document.createElement('div');
+    this.hintText.style.marginTop = '5px';
+    this.hintText.style.minHeight = '14px';
+
+    this.container.appendChild(this.canvas);
+    this.container.appendChild(this.hintText);
+    (document.getElementById('ui-container') || document.body).appendChild(this.container);
+
+    this.mapCanvas = document.createElement('canvas');
+    this.mapCanvas.width = MAP_WIDTH;
+    this.mapCanvas.height = MAP_HEIGHT;
+    this.mapContext = this.mapCanvas.getContext('2d');
+    this.mapImage = this.mapContext ? this.mapContext.createImageData(MAP_WIDTH, MAP_HEIGHT) : null;
+
+    // Look up which vertex colors each pixel once, the mesh never changes shape
+    this.pixelVertices = new Int32Array(MAP_WIDTH * MAP_HEIGHT);
+    const direction = new THREE.Vector3();
+    for (let py = 0; py < MAP_HEIGHT; py++) {
+      for (let px = 0; px < MAP_WIDTH; px++) {
+        this.pixelDirection(px + 0.5, py + 0.5, direction);
+        this.pixelVertices[py * MAP_WIDTH + px] = worldSphere.findNearestVertex(direction);
+      }
+    }
+
+    this.barrenCells = new Float32Array((MAP_WIDTH / REGION_CELL_SIZE) * (MAP_HEIGHT / REGION_CELL_SIZE));
+  }
+
+  setVisible(visible: boolean): void {
+    this.container.style.display = visible ? 'block' : 'none';
+    if (visible) {
+      this.timeSinceRefresh = REFRESH_INTERVAL; // Catch up on changes made while hidden
+    }
+  }
+
+  isVisible(): boolean {
+    return this.container.style.display !== 'none';
+  }
+
+  setShowHint(showHint: boolean): void {
+    this.showHint = showHint;
+    this.timeSinceRefresh = REFRESH_INTERVAL;
+  }
+
+  // Mark hazards (local directions) on the map from the next update on
+  setHazards(directions: THREE.Vector3[]): void {
+    this.hazards = directions;
+  }
+
+  update(player: Player, dt: number): void {
+    if (!this.isVisible() || !this.context) return;
+
+    const mesh = this.worldSphere.getMesh();
+    const playerDirection = mesh.worldToLocal(player.getMesh().position.clone()).normalize();
+
+    this.timeSinceRefresh += dt;
+    if (this.timeSinceRefresh >= REFRESH_INTERVAL) {
+      this.timeSinceRefresh = 0;
+      this.refreshMap();
+      this.barrenTarget = this.showHint ? this.findBarrenRegion(playerDirection) : null;
+    }
+
+    // Scroll the map so the player's longitude is in the middle, wrapping around the date line
+    const [playerX, playerY] = this.directionToPixel(playerDirection);
+    const offset = Math.round(MAP_WIDTH / 2 - playerX);
+    this.context.clearRect(0, 0, MAP_WIDTH, MAP_HEIGHT);
+    this.context.drawImage(this.mapCanvas, offset, 0);
+    this.context.drawImage(this.mapCanvas, offset - MAP_WIDTH, 0);
+    this.context.drawImage(this.mapCanvas, offset + MAP_WIDTH, 0);
+
+    // Nearest barren region as a ring, with its distance along the surface
+    if (this.barrenTarget) {
+      const [targetX, targetY] = this.directionToPixel(this.barrenTarget);
+      const x = THREE.MathUtils.euclideanModulo(targetX + offset, MAP_WIDTH);
+      this.context.strokeStyle = '#FF9800';
+      this.context.lineWidth = 2;
+      this.context.beginPath();
+      this.context.arc(x, targetY, 6, 0, Math.PI * 2);
+      this.context.stroke();
+
+      const distance = playerDirection.angleTo(this.barrenTarget) * this.worldSphere.getRadius();
+      this.hintText.textContent = `Nearest barren region: ${Math.round(distance)} m`;
+    } else {
+      this.hintText.textContent = this.showHint ? 'No large barren regions left' : '';
+    }
+
+    // Hazards as red dots
+    this.context.fillStyle = '#F44336';
+    this.hazards.forEach(direction => {
+      const [hazardX, hazardY] = this.directionToPixel(direction);
+      this.context!.beginPath();
+      this.context!.arc(THREE.MathUtils.euclideanModulo(hazardX + offset, MAP_WIDTH), hazardY, 4, 0, Math.PI * 2);
+      this.context!.fill();
+    });
+
+    // Player as a dot with a line showing the heading
+    const heading = player.getHeadingAt(player.getMesh().position)
+      .transformDirection(mesh.matrixWorld.clone().invert());
+    const [east, north] = this.localAxes(playerDirection);
+    const centerX = playerX + offset;
+    this.context.strokeStyle = '#FFFFFF';
+    this.context.lineWidth = 2;
+    this.context.beginPath();
+    this.context.moveTo(centerX, playerY);
+    this.context.lineTo(centerX + heading.dot(east) * 10, playerY - heading.dot(north) * 10);
+    this.context.stroke();
+    this.context.fillStyle = '#0088FF'; // Same blue as the player orb
+    this.context.beginPath();
+    this.context.arc(centerX, playerY, 4, 0, Math.PI * 2);
+    this.context.fill();
+    this.context.stroke();
+  }
+
+  dispose(): void {
+    this.container.remove();
+  }
+
+  // Redraw the offscreen map from the vertex colors and measure how barren each region cell is
+  private refreshMap(): void {
+    if (!this.mapContext || !this.mapImage) return;
+
+    const colors = this.worldSphere.getVertexColors();
+    const pixels = this.mapImage.data;
+    const cellsX = MAP_WIDTH / REGION_CELL_SIZE;
+    this.barrenCells.fill(0);
+
+    for (let i = 0; i < this.pixelVertices.length; i++) {
+      const vertex = this.pixelVertices[i];
+      pixels[i * 4] = colors[vertex * 3] * 255;
+      pixels[i * 4 + 1] = colors[vertex * 3 + 1] * 255;
+      pixels[i * 4 + 2] = colors[vertex * 3 + 2] * 255;
+      pixels[i * 4 + 3] = 255;
+
+      // Water doesn't count as barren, it can't be covered
+      if (this.worldSphere.isVertexCoverable(vertex) && !this.worldSphere.isVertexVisited(vertex)) {
+        const px = i % MAP_WIDTH;
+        const py = Math.floor(i / MAP_WIDTH);
+        this.barrenCells[Math.floor(py / REGION_CELL_SIZE) * cellsX + Math.floor(px / REGION_CELL_SIZE)]++;
+      }
+    }
+
+    const pixelsPerCell = REGION_CELL_SIZE * REGION_CELL_SIZE;
+    for (let i = 0; i < this.barrenCells.length; i++) {
+      this.barrenCells[i] /= pixelsPerCell;
+    }
+
+    this.mapContext.putImageData(this.mapImage, 0, 0);
+  }
+
+  // Find the closest cell of a barren region big enough to be worth flying to
+  private findBarrenRegion(playerDirection: THREE.Vector3): THREE.Vector3 | null {
+    const cellsX = MAP_WIDTH / REGION_CELL_SIZE;
+    const cellsY = MAP_HEIGHT / REGION_CELL_SIZE;
+    const region = new Int32Array(cellsX * cellsY).fill(-1);
+    const cellDirection = (cell: number, target: THREE.Vector3) => this.pixelDirection(
+      ((cell % cellsX) + 0.5) * REGION_CELL_SIZE,
+      (Math.floor(cell / cellsX) + 0.5) * REGION_CELL_SIZE,
+      target
+    );
+
+    // Group barren cells into regions (flood fill, wrapping around in longitude) and measure their area
+    const regionAreas: number[] = [];
+    for (let start = 0; start < region.length; start++) {
+      if (region[start] !== -1 || this.barrenCells[start] < BARREN_CELL_THRESHOLD) continue;
+
+      const id = regionAreas.length;
+      let area = 0;
+      const stack = [start];
+      region[start] = id;
+      while (stack.length > 0) {
+        const cell = stack.pop()!;
+        const cx = cell % cellsX;
+        const cy = Math.floor(cell / cellsX);
+
+        // Cells shrink towards the poles, their share of the surface follows the sine of the polar angle
+        const polarAngle = ((cy + 0.5) / cellsY) * Math.PI;
+        area += Math.sin(polarAngle) * (Math.PI / cellsY) * (2 * Math.PI / cellsX) / (4 * Math.PI);
+
+        const neighbors = [
+          cy * cellsX + (cx + 1) % cellsX,
+          cy * cellsX + (cx + cellsX - 1) % cellsX,
+          cy > 0 ? cell - cellsX : -1,
+          cy < cellsY - 1 ? cell + cellsX : -1
+        ];
+        neighbors.forEach(neighbor => {
+          if (neighbor >= 0 && region[neighbor] === -1 && this.barrenCells[neighbor] >= BARREN_CELL_THRESHOLD) {
+            region[neighbor] = id;
+            stack.push(neighbor);
+          }
+        });
+      }
+      regionAreas.push(area);
+    }
+
+    // Closest cell belonging to a large region
+    let best: THREE.Vector3 | null = null;
+    let bestAngle = Infinity;
+    const direction = new THREE.Vector3();
+    for (let cell = 0; cell < region.length; cell++) {
+      if (region[cell] === -1 || regionAreas[region[cell]] < MIN_REGION_AREA) continue;
+      cellDirection(cell, direction);
+      const angle = playerDirection.angleTo(direction);
+      if (angle < bestAngle) {
+        bestAngle = angle;
+        best = direction.clone();
+      }
+    }
+    return best;
+  }
+
+  // Local direction shown at a map pixel, using the sphere's UV layout (u around the y axis, v from the north pole)
+  private pixelDirection(px: number, py: number, target: THREE.Vector3): THREE.Vector3 {
+    const theta = (py / MAP_HEIGHT) * Math.PI;
+    const phi = (px / MAP_WIDTH) * Math.PI * 2;
+    return target.set(-Math.sin(theta) * Math.cos(phi), Math.cos(theta), Math.sin(theta) * Math.sin(phi));
+  }
+
+  // Map pixel of a local direction
+  private directionToPixel(direction: THREE.Vector3): [number, number] {
+    const d = direction.clone().normalize();
+    const theta = Math.acos(THREE.MathUtils.clamp(d.y, -1, 1));
+    const phi = THREE.MathUtils.euclideanModulo(Math.atan2(d.z, -d.x), Math.PI * 2);
+    return [(phi / (Math.PI * 2)) * MAP_WIDTH, (theta / Math.PI) * MAP_HEIGHT];
+  }
+
+  // East and north unit vectors on the surface at a direction, matching right and up on the map
+  private localAxes(direction: THREE.Vector3): [THREE.Vector3, THREE.Vector3] {
+    const [px] = this.directionToPixel(direction);
+    const phi = (px / MAP_WIDTH) * Math.PI * 2;
+    const east = new THREE.Vector3(Math.sin(phi), 0, Math.cos(phi));
+    const north = new THREE.Vector3().crossVectors(direction, east).normalize();
+    return [east, north.lengthSq() > 0 ? north : new THREE.Vector3(0, 1, 0)];
+  }
+}
@@ -0,0 +1,75 @@
+import { createButton } from './utils/button';
+
+// Callbacks for the pause menu buttons
+export interface PauseMenuActions {
+  onResume: () => void;
+  onRestart: () => void;
+  onSettings: () => void;
+  onQuit: () => void;
+}
+
+export class PauseMenu {
+  private overlay: HTMLElement;
+  private panel: HTMLElement;
+
+  constructor(actions: PauseMenuActions) {
+    // Full screen overlay that dims the game behind the menu
+    this.overlay = document.createElement('div');
+    this.overlay.id = 'pause-overlay';
+    this.overlay.style.position = 'absolute';
+    this.overlay.style.top = '0';
+    this.overlay.style.left = '0';
+    this.overlay.style.width = '100%';
+    this.overlay.style.height = '100%';
+    this.overlay.style.display = 'none';
+    this.overlay.style.justifyContent = 'center';
+    this.overlay.style.alignItems = 'center';
+    this.overlay.style.backgroundColor = 'rgba(0, 0, 0, 0.5)';
+    this.overlay.style.zIndex = '10000'; // Above the coverage UI
+    this.overlay.style.fontFamily = 'Arial, sans-serif';
+
+    // Menu panel
+    this.panel = document.createElement('div');
+    this.panel.style.display = 'flex';
+    this.panel.style.flexDirection = 'column';
+    this.panel.style.alignItems = 'stretch';
+    this.panel.style.minWidth = '260px';
+    this.panel.style.padding = '20px 30px';
+    this.panel.style.backgroundColor = 'rgba(0, 0, 0, 0.8)';
+    this.panel.style.borderRadius = '10px';
+    this.panel.style.boxShadow = '0 2px 10px rgba(0, 0, 0, 0.5)';
+    this.panel.style.color = 'white';
+    this.panel.style.textAlign = 'center';
+
+    const title = document.createElement('div');
+    title.textContent = 'Paused';
+    title.style.fontSize = '28px';
+    title.style.fontWeight = 'bold';
+    title.style.marginBottom = '10px';
+
+    this.panel.appendChild(title);
+    this.panel.appendChild(createButton('Resume', actions.onResume));
+    this.panel.appendChild(createButton('Restart', actions.onRestart));
+    this.panel.appendChild(createButton('Settings', actions.onSettings));
+    this.panel.appendChild(createButton('Quit to Menu', actions.onQuit));
+
+    this.overlay.appendChild(this.panel);
+    document.body.appendChild(this.overlay);
+  }
+
+  show(): void {
+    this.overlay.style.display = 'flex';
+  }
+
+  hide(): void {
+    this.overlay.style.display = 'none';
+  }
+
+  isVisible(): boolean {
+    return this.overlay.style.display !== 'none';
+  }
+
+  dispose(): void {
+    this.overlay.remove();
+  }
+}
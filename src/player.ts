@@ -1,17 +1,23 @@
 import * as THREE from 'three';
+import { WorldSphere } from './sphere';
 
 export class Player {
   private mesh: THREE.Mesh;
   private targetHeight: number = 0.9; // Distance from bottom of player to surface
   private radius: number = 0.5; // Size of the player orb
   private floatTime: number = 0; // Time counter for floating animation
-  private floatSpeed: number = 10; // Speed of floating animation
+  private floatSpeed: number = 10; // Speed of floating animation (radians per second)
   private floatAmplitude: number = 0.2; // How high the floating motion goes
-  private lerpFactor: number = 0.05; // Lower value = smoother movement
+  private heightFollowRate: number = 3.08; // How fast the orb settles to its hover height (per second), lower = smoother
   
-  // Movement properties
-  private velocity: THREE.Vector3 = new THREE.Vector3(); // For momentum-based movement
-  private dampingFactor: number = 0.95; // For slowing down movement
+  // Movement properties (all rates are per second so the simulation is frame-rate independent)
+  private position: THREE.Vector3 = new THREE.Vector3(); // Simulated position, the mesh shows an interpolation of it
+  private previousPosition: THREE.Vector3 = new THREE.Vector3(); // Simulated position before the last update
+  private velocity: THREE.Vector3 = new THREE.Vector3(); // For momentum-based movement (units per second)
+  private acceleration: THREE.Vector3 = new THREE.Vector3(); // Forces applied since the last update
+  private damping: number = 3.08; // Exponential velocity decay per second (0.95 per frame at 60 Hz)
+  private distanceTravelled: number = 0; // Total path length of the simulated position along the surface
+  private heading: THREE.Vector3 = new THREE.Vector3(0, 1, 0); // Forward along the surface, parallel-transported as the player moves
   
   // Coloring properties
   private coloringRadius: number = 1.2; // Radius around player that colors the sphere
@@ -20,10 +26,10 @@ export class Player {
   private particles: THREE.Mesh[] = [];
   private particleGeometry: THREE.SphereGeometry;
   private particleMaterial: THREE.MeshStandardMaterial;
-  private emissionRate: number = 10; // Particles per frame
+  private emissionRate: number = 600; // Particles per second
   private emissionTimer: number = 0;
-  private gravity: number = 0.01;
-  private particleLifetime: number = 200; // Frames before particle is removed
+  private gravity: number = 36; // Pull towards the planet center (units per second squared)
+  private particleLifetime: number = 3.3; // Seconds before particle is removed
   
   constructor() {
     // Create a sphere for the player
@@ -59,17 +65,65 @@ export class Player {
     return this.particles;
   }
   
+  // Place the player, without interpolating from the old position
   setPosition(x: number, y: number, z: number): void {
-    this.mesh.position.set(x, y, z);
+    this.position.set(x, y, z);
+    this.previousPosition.copy(this.position);
+    this.mesh.position.copy(this.position);
+    this.orthonormalizeHeading();
   }
   
+  // Get the simulated position (the mesh may be slightly behind, see interpolate)
   getPosition(): THREE.Vector3 {
-    return this.mesh.position.clone();
+    return this.position.clone();
   }
   
-  // Apply a force to the player (for movement)
+  getVelocity(): THREE.Vector3 {
+    return this.velocity.clone();
+  }
+  
+  setVelocity(x: number, y: number, z: number): void {
+    this.velocity.set(x, y, z);
+  }
+  
+  // Get the forward direction, tangent to the sphere at the simulated position
+  getHeading(): THREE.Vector3 {
+    return this.heading.clone();
+  }
+  
+  // Get the heading carried over to another position, e.g. the interpolated mesh position
+  getHeadingAt(position: THREE.Vector3): THREE.Vector3 {
+    const transport = new THREE.Quaternion().setFromUnitVectors(
+      this.position.clone().normalize(),
+      position.clone().normalize()
+    );
+    return this.heading.clone().applyQuaternion(transport);
+  }
+  
+  // Point the heading along a direction, which is projected onto the surface
+  setHeading(direction: THREE.Vector3): void {
+    this.heading.copy(direction);
+    this.orthonormalizeHeading();
+  }
+  
+  // Turn the heading around the surface normal, positive angles (radians) turn right
+  turn(angle: number): void {
+    this.heading.applyAxisAngle(this.position.clone().normalize(), -angle);
+    this.orthonormalizeHeading();
+  }
+  
+  getDistanceTravelled(): number {
+    return this.distanceTravelled;
+  }
+  
+  setDistanceTravelled(distance: number): void {
+    this.distanceTravelled = distance;
+  }
+  
+  // Apply a force to the player (for movement), in units per second squared
+  // Forces are accumulated and integrated over the next update
   applyForce(force: THREE.Vector3): void {
-    this.velocity.add(force);
+    this.acceleration.add(force);
   }
   
   // Get the coloring radius
@@ -82,39 +136,6 @@ export class Player {
     this.coloringRadius = radius;
   }
 
-  private getTerrainHeight(worldSphere: THREE.Mesh, direction: THREE.Vector3): number {
-    // Get the sphere's geometry
-    const geometry = worldSphere.geometry as THREE.BufferGeometry;
-    const positionAttribute = geometry.getAttribute('position');
-    const vertices = positionAttribute.array;
-    
-    // Create inverse matrix to transform player position into sphere's local space
-    const inverseMatrix = new THREE.Matrix4().copy(worldSphere.matrixWorld).invert();
-    const localPlayerPos = this.mesh.position.clone().applyMatrix4(inverseMatrix);
-    const localPlayerDir = localPlayerPos.clone().normalize();
-    
-    // Find the closest vertex to our direction in local space
-    let closestVertex = new THREE.Vector3();
-    let minAngle = Infinity;
-    
-    for (let i = 0; i < vertices.length; i += 3) {
-      const vertex = new THREE.Vector3(vertices[i], vertices[i + 1], vertices[i + 2]);
-      const vertexDirection = vertex.clone().normalize();
-      const angle = localPlayerDir.angleTo(vertexDirection);
-      
-      if (angle < minAngle) {
-        minAngle = angle;
-        closestVertex.copy(vertex);
-      }
-    }
-    
-    // Transform the closest vertex back to world space
-    const worldClosestVertex = closestVertex.clone().applyMatrix4(worldSphere.matrixWorld);
-    
-    // Return the actual height (magnitude) of the closest vertex in world space
-    return worldClosestVertex.length();
-  }
-  
   private emitParticle(): void {
     // Create a new particle
     const particle = new THREE.Mesh(this.particleGeometry, this.particleMaterial);
@@ -130,11 +151,11 @@ export class Player {
     const normal = new THREE.Vector3(x, y, z).normalize();
     
     // Set particle position relative to player
-    particle.position.copy(this.mesh.position).add(new THREE.Vector3(x, y, z));
+    particle.position.copy(this.position).add(new THREE.Vector3(x, y, z));
     
-    // Add initial velocity along surface normal with some randomness
-    const baseSpeed = 0.05;
-    const randomFactor = 0.02;
+    // Add initial velocity along surface normal with some randomness (units per second)
+    const baseSpeed = 3;
+    const randomFactor = 1.2;
     particle.userData.velocity = normal.clone()
       .multiplyScalar(baseSpeed)
       .add(new THREE.Vector3(
@@ -150,9 +171,11 @@ export class Player {
     this.particles.push(particle);
   }
 
-  private updateParticles(worldSphere: THREE.Mesh): void {
+  private updateParticles(worldSphere: WorldSphere, dt: number): void {
+    const sphereMesh = worldSphere.getMesh();
+
     // Emit new particles
-    this.emissionTimer += this.emissionRate;
+    this.emissionTimer += this.emissionRate * dt;
     while (this.emissionTimer >= 1) {
       this.emitParticle();
       this.emissionTimer -= 1;
@@ -163,52 +186,56 @@ export class Player {
       const particle = this.particles[i];
       
       // Update lifetime
-      particle.userData.lifetime++;
+      particle.userData.lifetime += dt;
       
       // Apply gravity towards world sphere center
       const toCenter = new THREE.Vector3().subVectors(
-        worldSphere.position,
+        sphereMesh.position,
         particle.position
       ).normalize();
       
-      particle.userData.velocity.add(toCenter.multiplyScalar(this.gravity));
+      particle.userData.velocity.add(toCenter.multiplyScalar(this.gravity * dt));
       
       // Update position
-      particle.position.add(particle.userData.velocity);
+      particle.position.addScaledVector(particle.userData.velocity, dt);
       
       // Check for collision with world sphere
-      const distanceToCenter = particle.position.distanceTo(worldSphere.position);
-      const sphereRadius = (worldSphere.geometry as THREE.SphereGeometry).parameters.radius;
+      // (the planet geometry isn't a SphereGeometry for every mesh type, so ask the planet for its radius)
+      const distanceToCenter = particle.position.distanceTo(sphereMesh.position);
+      const sphereRadius = Math.max(worldSphere.getRadius(), worldSphere.getSeaLevel());
       
       // Remove particle if it hits the sphere or exceeds lifetime
       if (distanceToCenter <= sphereRadius + 0.1 || particle.userData.lifetime > this.particleLifetime) {
-        // Remove from scene
+        // Remove from scene (geometry and material are shared, they are disposed with the player)
         if (particle.parent) {
           particle.parent.remove(particle);
         }
-        // Dispose of resources
-        particle.geometry.dispose();
-        (particle.material as THREE.Material).dispose();
         this.particles.splice(i, 1);
       }
     }
   }
 
-  update(worldSphere: THREE.Mesh): void {
-    // Apply velocity to position (move the player)
-    this.mesh.position.add(this.velocity);
+  // Advance the simulation by dt seconds
+  update(worldSphere: WorldSphere, dt: number): void {
+    this.previousPosition.copy(this.position);
+    
+    // Integrate applied forces, then apply velocity to position (move the player)
+    this.velocity.addScaledVector(this.acceleration, dt);
+    this.acceleration.set(0, 0, 0);
+    this.position.addScaledVector(this.velocity, dt);
     
     // Update floating animation time
-    this.floatTime += 0.016 * this.floatSpeed;
+    this.floatTime += dt * this.floatSpeed;
     
     // Get current position after applying velocity
-    const currentPos = this.mesh.position.clone();
+    const currentPos = this.position.clone();
     
     // Calculate direction from center
     const direction = currentPos.clone().normalize();
     
-    // Get the actual terrain height at this position
-    const terrainHeight = this.getTerrainHeight(worldSphere, direction);
+    // Get the interpolated terrain height at this position, over the sea the orb hovers on the water instead
+    const localDirection = worldSphere.getMesh().worldToLocal(currentPos.clone());
+    const terrainHeight = Math.max(worldSphere.sampleHeight(localDirection), worldSphere.getSeaLevel());
     
     // Calculate base height (terrain height + target height + radius)
     const baseHeight = terrainHeight + this.targetHeight + this.radius;
@@ -219,13 +246,62 @@ export class Player {
     // Calculate final target position on sphere surface
     const targetPos = direction.multiplyScalar(baseHeight + floatOffset);
     
-    // Smoothly move towards target position with reduced lerp factor
-    this.mesh.position.lerp(targetPos, this.lerpFactor);
+    // Smoothly move towards target position, exponentially so it is independent of dt
+    this.position.lerp(targetPos, 1 - Math.exp(-this.heightFollowRate * dt));
     
     // Apply damping to velocity (slow down over time)
-    this.velocity.multiplyScalar(this.dampingFactor);
+    this.velocity.multiplyScalar(Math.exp(-this.damping * dt));
+    
+    // Track the path length for round statistics, as the arc along the surface
+    // (the hover bob and terrain following move the orb radially, that isn't travel)
+    this.distanceTravelled += this.previousPosition.angleTo(this.position) * worldSphere.getRadius();
+    
+    // Carry the heading along the path, rotating it exactly as far as the surface normal turned
+    const transport = new THREE.Quaternion().setFromUnitVectors(
+      this.previousPosition.clone().normalize(),
+      this.position.clone().normalize()
+    );
+    this.heading.applyQuaternion(transport);
+    this.orthonormalizeHeading();
 
     // Update particles
-    this.updateParticles(worldSphere);
+    this.updateParticles(worldSphere, dt);
+  }
+
+  // Keep the heading a unit vector tangent to the sphere, so rounding errors can't make it drift or collapse
+  private orthonormalizeHeading(): void {
+    const up = this.position.clone().normalize();
+    this.heading.addScaledVector(up, -this.heading.dot(up));
+    
+    // Only possible if the heading was set straight up or down, pick any tangent
+    if (this.heading.lengthSq() < 1e-8) {
+      const axis = Math.abs(up.x) < 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0);
+      this.heading.crossVectors(up, axis);
+    }
+    this.heading.normalize();
+  }
+
+  // Place the mesh between the last two simulated positions for smooth rendering
+  // alpha is the fraction of a fixed timestep that has elapsed since the last update
+  interpolate(alpha: number): void {
+    this.mesh.position.lerpVectors(this.previousPosition, this.position, alpha);
+  }
+
+  // Remove the player and its particles from the scene and release their GPU resources
+  dispose(): void {
+    this.particles.forEach(particle => {
+      if (particle.parent) {
+        particle.parent.remove(particle);
+      }
+    });
+    this.particles = [];
+    this.particleGeometry.dispose();
+    this.particleMaterial.dispose();
+    
+    if (this.mesh.parent) {
+      this.mesh.parent.remove(this.mesh);
+    }
+    this.mesh.geometry.dispose();
+    (this.mesh.material as THREE.Material).dispose();
   }
 }
@@ -0,0 +1,170 @@
+import { RoundSummary } from './game';
+import { LeaderboardEntry, RecordResult } from './leaderboard';
+import { formatDuration } from './utils/format';
+import { createButton } from './utils/button';
+
+// Entries of the seed/mode board listed on the results screen
+const BOARD_ROWS_SHOWN = 5;
+
+// Callbacks for the results screen buttons
+export interface ResultsScreenActions {
+  onPlayAgain: () => void;
+  onQuit: () => void;
+}
+
+export class ResultsScreen {
+  private overlay: HTMLElement;
+  private statsList: HTMLElement;
+  private title: HTMLElement;
+  private recordText: HTMLElement;
+  private boardList: HTMLElement;
+
+  constructor(actions: ResultsScreenActions) {
+    // Full screen overlay shown when the round is over
+    this.overlay = document.createElement('div');
+    this.overlay.id = 'results-overlay';
+    this.overlay.style.position = 'absolute';
+    this.overlay.style.top = '0';
+    this.overlay.style.left = '0';
+    this.overlay.style.width = '100%';
+    this.overlay.style.height = '100%';
+    this.overlay.style.display = 'none';
+    this.overlay.style.justifyContent = 'center';
+    this.overlay.style.alignItems = 'center';
+    this.overlay.style.backgroundColor = 'rgba(0, 0, 0, 0.5)';
+    this.overlay.style.zIndex = '10000'; // Above the coverage UI
+    this.overlay.style.fontFamily = 'Arial, sans-serif';
+
+    // Results panel
+    const panel = document.createElement('div');
+    panel.style.display = 'flex';
+    panel.style.flexDirection = 'column';
+    panel.style.alignItems = 'stretch';
+    panel.style.minWidth = '320px';
+    panel.style.padding = '20px 30px';
+    panel.style.backgroundColor = 'rgba(0, 0, 0, 0.8)';
+    panel.style.borderRadius = '10px';
+    panel.style.boxShadow = '0 2px 10px rgba(0, 0, 0, 0.5)';
+    panel.style.color = 'white';
+    panel.style.textAlign = 'center';
+
+    this.title = document.createElement('div');
+    this.title.style.fontSize = '28px';
+    this.title.style.fontWeight = 'bold';
+    this.title.style.marginBottom = '15px';
+    this.title.style.color = '#4CAF50';
+
+    // Personal best / rank announcement
+    this.recordText = document.createElement('div');
+    this.recordText.style.fontSize = '16px';
+    this.recordText.style.fontWeight = 'bold';
+    this.recordText.style.color = '#FFD700'; // Gold to stand out
+    this.recordText.style.marginBottom = '10px';
+
+    // Rows of stats, filled in by show()
+    this.statsList = document.createElement('div');
+    this.statsList.style.display = 'grid';
+    this.statsList.style.gridTemplateColumns = 'auto auto';
+    this.statsList.style.columnGap = '20px';
+    this.statsList.style.rowGap = '6px';
+    this.statsList.style.textAlign = 'left';
+    this.statsList.style.fontSize = '16px';
+    this.statsList.style.marginBottom = '10px';
+
+    // Best runs on this seed and mode
+    this.boardList = document.createElement('div');
+    this.boardList.style.display = 'grid';
+    this.boardList.style.gridTemplateColumns = 'auto auto auto';
+    this.boardList.style.columnGap = '20px';
+    this.boardList.style.rowGap = '4px';
+    this.boardList.style.textAlign = 'left';
+    this.boardList.style.fontSize = '14px';
+    this.boardList.style.marginBottom = '10px';
+
+    panel.appendChild(this.title);
+    panel.appendChild(this.recordText);
+    panel.appendChild(this.statsList);
+    panel.appendChild(this.boardList);
+    panel.appendChild(createButton('Play Again', actions.onPlayAgain));
+    panel.appendChild(createButton('Quit to Menu', actions.onQuit));
+
+    this.overlay.appendChild(panel);
+    document.body.appendChild(this.overlay);
+  }
+
+  show(summary: RoundSummary, record: RecordResult, board: LeaderboardEntry[]): void {
+    this.title.textContent = summary.title;
+    if (record.isPersonalBest) {
+      this.recordText.textContent = 'New personal best!';
+    } else if (record.rank > 0) {
+      this.recordText.textContent = `#${record.rank} on this planet`;
+    } else {
+      this.recordText.textContent = '';
+    }
+
+    this.statsList.innerHTML = '';
+    this.addStat('Mode', summary.modeName);
+    this.addStat(summary.score.label, summary.score.formatted);
+    this.addStat('Coverage', `${summary.coverage.toFixed(2)}%`);
+    this.addStat('Time taken', formatDuration(summary.elapsedTime));
+    this.addStat('Distance travelled', `${summary.distanceTravelled.toFixed(0)} m`);
+    this.addStat('Peak coverage rate', `${summary.peakCoverageRate.toFixed(1)}% / min`);
+    summary.goalTimes.forEach(({ goal, time }) => {
+      this.addStat(`${goal}% reached at`, formatDuration(time));
+    });
+    this.addStat('Seed', String(summary.seed));
+    this.showBoard(board, record.rank);
+
+    this.overlay.style.display = 'flex';
+  }
+
+  hide(): void {
+    this.overlay.style.display = 'none';
+  }
+
+  dispose(): void {
+    this.overlay.remove();
+  }
+
+  // List the best runs of this seed and mode, highlighting the one just played
+  private showBoard(board: LeaderboardEntry[], highlightRank: number): void {
+    this.boardList.innerHTML = '';
+    if (board.length === 0) return;
+
+    const heading = document.createElement('div');
+    heading.textContent = 'Best runs on this planet';
+    heading.style.gridColumn = '1 / -1';
+    heading.style.fontWeight = 'bold';
+    heading.style.marginTop = '5px';
+    this.boardList.appendChild(heading);
+
+    board.slice(0, BOARD_ROWS_SHOWN).forEach((entry, index) => {
+      const cells = [
+        `#${index + 1}`,
+        entry.formattedScore,
+        // Imported runs compete on the board but weren't played here
+        new Date(entry.date).toLocaleDateString() + (entry.imported ? ' (imported)' : '')
+      ];
+      cells.forEach(text => {
+        const cell = document.createElement('div');
+        cell.textContent = text;
+        cell.style.color = index + 1 === highlightRank ? '#FFD700' : 'white';
+        this.boardList.appendChild(cell);
+      });
+    });
+  }
+
+  private addStat(label: string, value: string): void {
+    const labelElement = document.createElement('div');
+    labelElement.textContent = label;
+    labelElement.style.opacity = '0.7';
+
+    const valueElement = document.createElement('div');
+    valueElement.textContent = value;
+    valueElement.style.fontWeight = 'bold';
+    valueElement.style.textAlign = 'right';
+
+    this.statsList.appendChild(labelElement);
+    this.statsList.appendChild(valueElement);
+  }
+}
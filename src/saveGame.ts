@@ -0,0 +1,134 @@
+import { PlanetMeshType, VertexStateSnapshot, isPlanetMeshType } from './sphere';
+import { GameModeId, isGameModeId } from './gameModes';
+
+// Storage key and format version for saved planets
+const SAVE_KEY = 'green-sphere-save';
+const SAVE_VERSION = 1;
+
+// Everything needed to resume a planet
+export interface SaveData {
+  seed: number;
+  modeId: GameModeId;
+  meshType: PlanetMeshType;
+  vertexStates: VertexStateSnapshot;
+  playerPosition: [number, number, number];
+  playerVelocity: [number, number, number];
+  playerHeading: [number, number, number] | null; // Null for saves from before the player had a heading
+  elapsedTime: number; // Seconds played on this planet
+  distanceTravelled: number;
+  savedAt: number; // Unix time in milliseconds
+}
+
+// Shape of the save as stored in localStorage (typed arrays as base64 strings)
+interface StoredSave {
+  version: number;
+  seed: number;
+  modeId?: string; // Missing in saves from before game modes existed
+  meshType?: string; // Missing in saves from before planets had a mesh type (always UV spheres)
+  vertexCount: number;
+  visited: string;
+  fertility: string;
+  passes?: string; // Missing in saves from before biomes
+  playerPosition: [number, number, number];
+  playerVelocity: [number, number, number];
+  playerHeading?: [number, number, number]; // Missing in saves from before the player had a heading
+  elapsedTime: number;
+  distanceTravelled?: number; // Missing in saves from before distance was tracked
+  savedAt: number;
+}
+
+// Write the save to localStorage, returns false if storage is unavailable or full
+export function saveGame(data: SaveData): boolean {
+  const stored: StoredSave = {
+    version: SAVE_VERSION,
+    seed: data.seed,
+    modeId: data.modeId,
+    meshType: data.meshType,
+    vertexCount: data.vertexStates.vertexCount,
+    visited: bytesToBase64(data.vertexStates.visited),
+    fertility: bytesToBase64(data.vertexStates.fertility),
+    passes: data.vertexStates.passes ? bytesToBase64(data.vertexStates.passes) : undefined,
+    playerPosition: data.playerPosition,
+    playerVelocity: data.playerVelocity,
+    playerHeading: data.playerHeading ?? undefined,
+    elapsedTime: data.elapsedTime,
+    distanceTravelled: data.distanceTravelled,
+    savedAt: data.savedAt
+  };
+
+  try {
+    window.localStorage.setItem(SAVE_KEY, JSON.stringify(stored));
+    return true;
+  } catch (error) {
+    console.error('Failed to save progress:', error);
+    return false;
+  }
+}
+
+// Read the save from localStorage, returns null if there is none or it can't be used
+export function loadGame(): SaveData | null {
+  let raw: string | null = null;
+  try {
+    raw = window.localStorage.getItem(SAVE_KEY);
+  } catch (error) {
+    console.error('Failed to read saved progress:', error);
+  }
+  if (!raw) return null;
+
+  try {
+    const stored = JSON.parse(raw) as StoredSave;
+    if (stored.version !== SAVE_VERSION) {
+      console.log(`Ignoring save with unsupported version ${stored.version}`);
+      return null;
+    }
+
+    return {
+      seed: stored.seed,
+      modeId: isGameModeId(stored.modeId) ? stored.modeId : 'zen',
+      meshType: isPlanetMeshType(stored.meshType) ? stored.meshType : 'uv',
+      vertexStates: {
+        vertexCount: stored.vertexCount,
+        visited: base64ToBytes(stored.visited),
+        fertility: base64ToBytes(stored.fertility),
+        passes: stored.passes ? base64ToBytes(stored.passes) : undefined
+      },
+      playerPosition: stored.playerPosition,
+      playerVelocity: stored.playerVelocity,
+      playerHeading: stored.playerHeading ?? null,
+      elapsedTime: stored.elapsedTime,
+      distanceTravelled: stored.distanceTravelled ?? 0,
+      savedAt: stored.savedAt
+    };
+  } catch (error) {
+    console.error('Saved progress is corrupt, ignoring it:', error);
+    return null;
+  }
+}
+
+// Remove the saved planet
+export function clearSave(): void {
+  try {
+    window.localStorage.removeItem(SAVE_KEY);
+  } catch (error) {
+    console.error('Failed to clear saved progress:', error);
+  }
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  // Build the binary string in chunks to stay clear of argument count limits
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,167 @@
+import { PlanetMeshType, isPlanetMeshType } from './sphere';
+
+// Storage key and format version for player settings
+const SETTINGS_KEY = 'green-sphere-settings';
+const SETTINGS_VERSION = 1;
+
+// Keys that can be bound to each action
+export const BINDING_SLOTS = 2;
+
+// Everything the player can bind a key to
+export type ControlAction =
+  | 'moveForward' | 'moveBack' | 'moveLeft' | 'moveRight'
+  | 'cameraLeft' | 'cameraRight' | 'cameraUp' | 'cameraDown'
+  | 'zoomIn' | 'zoomOut' | 'cameraMode'
+  | 'minimap' | 'pause';
+
+// Actions in the order they are listed in the settings screen
+export const CONTROL_ACTIONS: Array<{ action: ControlAction; label: string }> = [
+  { action: 'moveForward', label: 'Move forward' },
+  { action: 'moveBack', label: 'Move back' },
+  { action: 'moveLeft', label: 'Move left' },
+  { action: 'moveRight', label: 'Move right' },
+  { action: 'cameraLeft', label: 'Turn camera left' },
+  { action: 'cameraRight', label: 'Turn camera right' },
+  { action: 'cameraUp', label: 'Raise camera' },
+  { action: 'cameraDown', label: 'Lower camera' },
+  { action: 'zoomIn', label: 'Zoom in' },
+  { action: 'zoomOut', label: 'Zoom out' },
+  { action: 'cameraMode', label: 'Next camera mode' },
+  { action: 'minimap', label: 'Show/hide map' },
+  { action: 'pause', label: 'Pause' }
+];
+
+// Keys (KeyboardEvent.key, lower case) bound to each action, empty strings are unused slots
+export type KeyBindings = Record<ControlAction, string[]>;
+
+// Strafe moves sideways with left/right, tank turns the heading with them instead
+export type SteeringMode = 'strafe' | 'tank';
+
+export interface Settings {
+  bindings: KeyBindings;
+  steering: SteeringMode;
+  minimapHint: boolean; // Mark the nearest large unvisited region on the map
+  planetMesh: PlanetMeshType; // Mesh new planets are built with
+  zenStorms: boolean; // Drought storms in Zen too, which has none by default
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  bindings: {
+    moveForward: ['w', 'arrowup'],
+    moveBack: ['s', 'arrowdown'],
+    moveLeft: ['a', 'arrowleft'],
+    moveRight: ['d', 'arrowright'],
+    cameraLeft: ['q', ''],
+    cameraRight: ['e', ''],
+    cameraUp: ['r', ''],
+    cameraDown: ['f', ''],
+    zoomIn: ['=', '+'],
+    zoomOut: ['-', '_'],
+    cameraMode: ['c', ''],
+    minimap: ['m', ''],
+    pause: ['escape', '']
+  },
+  steering: 'strafe',
+  minimapHint: true,
+  planetMesh: 'uv',
+  zenStorms: false
+};
+
+// Read settings from localStorage, filling anything missing with defaults
+export function loadSettings(): Settings {
+  const settings = cloneSettings(DEFAULT_SETTINGS);
+
+  try {
+    const raw = window.localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return settings;
+
+    const stored = JSON.parse(raw) as { version?: number; bindings?: Partial<KeyBindings>; steering?: unknown; minimapHint?: unknown; planetMesh?: unknown; zenStorms?: unknown };
+    if (stored.version !== SETTINGS_VERSION) return settings;
+
+    if (stored.steering === 'strafe' || stored.steering === 'tank') {
+      settings.steering = stored.steering;
+    }
+    if (typeof stored.minimapHint === 'boolean') {
+      settings.minimapHint = stored.minimapHint;
+    }
+    if (isPlanetMeshType(stored.planetMesh)) {
+      settings.planetMesh = stored.planetMesh;
+    }
+    if (typeof stored.zenStorms === 'boolean') {
+      settings.zenStorms = stored.zenStorms;
+    }
+
+    CONTROL_ACTIONS.forEach(({ action }) => {
+      const keys = stored.bindings?.[action];
+      if (Array.isArray(keys)) {
+        settings.bindings[action] = normalizeSlots(keys.filter((key): key is string => typeof key === 'string'));
+      }
+    });
+  } catch (error) {
+    console.error('Failed to read settings, using defaults:', error);
+  }
+
+  return settings;
+}
+
+export function saveSettings(settings: Settings): void {
+  try {
+    window.localStorage.setItem(SETTINGS_KEY, JSON.stringify({ version: SETTINGS_VERSION, ...settings }));
+  } catch (error) {
+    console.error('Failed to save settings:', error);
+  }
+}
+
+export function cloneSettings(settings: Settings): Settings {
+  const bindings = {} as KeyBindings;
+  CONTROL_ACTIONS.forEach(({ action }) => {
+    bindings[action] = [...settings.bindings[action]];
+  });
+  return { ...settings, bindings };
+}
+
+// Find keys bound to more than one action
+export function findBindingConflicts(bindings: KeyBindings): Map<string, ControlAction[]> {
+  const actionsByKey = new Map<string, ControlAction[]>();
+  CONTROL_ACTIONS.forEach(({ action }) => {
+    bindings[action].forEach(key => {
+      if (!key) return;
+      const actions = actionsByKey.get(key) ?? [];
+      if (!actions.includes(action)) {
+        actions.push(action);
+      }
+      actionsByKey.set(key, actions);
+    });
+  });
+
+  const conflicts = new Map<string, ControlAction[]>();
+  actionsByKey.forEach((actions, key) => {
+    if (actions.length > 1) {
+      conflicts.set(key, actions);
+    }
+  });
+  return conflicts;
+}
+
+// Human readable name of a key, e.g. "arrowup" -> "↑"
+export function formatKey(key: string): string {
+  const names: Record<string, string> = {
+    ' ': 'Space',
+    arrowup: '↑',
+    arrowdown: '↓',
+    arrowleft: '←',
+    arrowright: '→',
+    escape: 'Esc'
+  };
+  if (names[key]) return names[key];
+  return key.length === 1 ? key.toUpperCase() : key.charAt(0).toUpperCase() + key.slice(1);
+}
+
+// Pad or trim a list of keys to exactly BINDING_SLOTS entries
+function normalizeSlots(keys: string[]): string[] {
+  const slots = keys.slice(0, BINDING_SLOTS).map(key => key.toLowerCase());
+  while (slots.length < BINDING_SLOTS) {
+    slots.push('');
+  }
+  return slots;
+}
@@ -0,0 +1,251 @@
+import {
+  BINDING_SLOTS,
+  CONTROL_ACTIONS,
+  ControlAction,
+  DEFAULT_SETTINGS,
+  Settings,
+  cloneSettings,
+  findBindingConflicts,
+  formatKey,
+  loadSettings,
+  saveSettings
+} from './settings';
+import { PLANET_MESH_TYPES } from './sphere';
+import { createButton } from './utils/button';
+
+// Called when the settings screen closes, with the saved settings or null if changes were discarded
+export type SettingsCloseHandler = (saved: Settings | null) => void;
+
+export class SettingsScreen {
+  private overlay: HTMLElement;
+  private bindingsTable: HTMLElement;
+  private conflictText: HTMLElement;
+  private saveButton: HTMLButtonElement;
+  private steeringButton: HTMLButtonElement;
+  private minimapHintButton: HTMLButtonElement;
+  private planetMeshButton: HTMLButtonElement;
+  private zenStormsButton: HTMLButtonElement;
+  private draft: Settings = loadSettings(); // Settings being edited, only stored on save
+  private listening: { action: ControlAction; slot: number } | null = null; // Binding waiting for a key press
+  private onClose: SettingsCloseHandler | null = null;
+
+  constructor() {
+    // Full screen overlay, above the pause menu
+    this.overlay = document.createElement('div');
+    this.overlay.id = 'settings-overlay';
+    this.overlay.style.position = 'absolute';
+    this.overlay.style.top = '0';
+    this.overlay.style.left = '0';
+    this.overlay.style.width = '100%';
+    this.overlay.style.height = '100%';
+    this.overlay.style.display = 'none';
+    this.overlay.style.justifyContent = 'center';
+    this.overlay.style.alignItems = 'center';
+    this.overlay.style.backgroundColor = 'rgba(0, 0, 0, 0.5)';
+    this.overlay.style.zIndex = '10001';
+    this.overlay.style.fontFamily = 'Arial, sans-serif';
+
+    // Settings panel
+    const panel = document.createElement('div');
+    panel.style.display = 'flex';
+    panel.style.flexDirection = 'column';
+    panel.style.alignItems = 'stretch';
+    panel.style.minWidth = '380px';
+    panel.style.maxHeight = '90vh';
+    panel.style.overflowY = 'auto';
+    panel.style.padding = '20px 30px';
+    panel.style.backgroundColor = 'rgba(0, 0, 0, 0.85)';
+    panel.style.borderRadius = '10px';
+    panel.style.boxShadow = '0 2px 10px rgba(0, 0, 0, 0.5)';
+    panel.style.color = 'white';
+    panel.style.textAlign = 'center';
+
+    const title = document.createElement('div');
+    title.textContent = 'Controls';
+    title.style.fontSize = '28px';
+    title.style.fontWeight = 'bold';
+    title.style.marginBottom = '5px';
+
+    const hint = document.createElement('div');
+    hint.textContent = 'Click a key to rebind it, Delete or Backspace clears it';
+    hint.style.fontSize = '13px';
+    hint.style.opacity = '0.7';
+    hint.style.marginBottom = '10px';
+
+    // One row per action with a button per binding slot
+    this.bindingsTable = document.createElement('div');
+    this.bindingsTable.style.display = 'grid';
+    this.bindingsTable.style.gridTemplateColumns = `auto repeat(${BINDING_SLOTS}, 90px)`;
+    this.bindingsTable.style.columnGap = '10px';
+    this.bindingsTable.style.rowGap = '6px';
+    this.bindingsTable.style.alignItems = 'center';
+    this.bindingsTable.style.textAlign = 'left';
+
+    // Strafe or tank steering for left/right
+    this.steeringButton = this.createToggle(() => {
+      this.draft.steering = this.draft.steering === 'strafe' ? 'tank' : 'strafe';
+    });
+    this.minimapHintButton = this.createToggle(() => {
+      this.draft.minimapHint = !this.draft.minimapHint;
+    });
+    this.planetMeshButton = this.createToggle(() => {
+      const index = PLANET_MESH_TYPES.findIndex(type => type.id === this.draft.planetMesh);
+      this.draft.planetMesh = PLANET_MESH_TYPES[(index + 1) % PLANET_MESH_TYPES.length].id;
+    });
+    this.zenStormsButton = this.createToggle(() => {
+      this.draft.zenStorms = !this.draft.zenStorms;
+    });
+
+    this.conflictText = document.createElement('div');
+    this.conflictText.style.fontSize = '14px';
+    this.conflictText.style.color = '#FF5252';
+    this.conflictText.style.marginTop = '10px';
+    this.conflictText.style.minHeight = '18px';
+
+    this.saveButton = createButton('Save', () => this.save());
+
+    panel.appendChild(title);
+    panel.appendChild(hint);
+    panel.appendChild(this.bindingsTable);
+    panel.appendChild(this.steeringButton);
+    panel.appendChild(this.minimapHintButton);
+    panel.appendChild(this.planetMeshButton);
+    panel.appendChild(this.zenStormsButton);
+    panel.appendChild(this.conflictText);
+    panel.appendChild(this.saveButton);
+    panel.appendChild(createButton('Reset to Defaults', () => this.resetToDefaults()));
+    panel.appendChild(createButton('Back', () => this.close(null)));
+
+    this.overlay.appendChild(panel);
+    document.body.appendChild(this.overlay);
+  }
+
+  // Open the screen with the stored settings, onClose is called when it is closed again
+  show(onClose: SettingsCloseHandler): void {
+    this.onClose = onClose;
+    this.draft = loadSettings();
+    this.listening = null;
+    this.render();
+    this.overlay.style.display = 'flex';
+
+    // Capture phase, so key presses here never reach the game's controls
+    window.addEventListener('keydown', this.handleKeyDown, true);
+  }
+
+  isVisible(): boolean {
+    return this.overlay.style.display !== 'none';
+  }
+
+  dispose(): void {
+    window.removeEventListener('keydown', this.handleKeyDown, true);
+    this.overlay.remove();
+  }
+
+  private close(saved: Settings | null): void {
+    window.removeEventListener('keydown', this.handleKeyDown, true);
+    this.overlay.style.display = 'none';
+    this.listening = null;
+
+    const onClose = this.onClose;
+    this.onClose = null;
+    onClose?.(saved);
+  }
+
+  private save(): void {
+    if (findBindingConflicts(this.draft.bindings).size > 0) return;
+    saveSettings(this.draft);
+    this.close(cloneSettings(this.draft));
+  }
+
+  private resetToDefaults(): void {
+    this.draft = cloneSettings(DEFAULT_SETTINGS);
+    this.listening = null;
+    this.render();
+  }
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    event.stopImmediatePropagation();
+    event.preventDefault();
+
+    // Without a binding waiting for a key, Escape goes back
+    if (!this.listening) {
+      if (event.key === 'Escape') {
+        this.close(null);
+      }
+      return;
+    }
+
+    const { action, slot } = this.listening;
+    const key = event.key.toLowerCase();
+    this.draft.bindings[action][slot] = key === 'delete' || key === 'backspace' ? '' : key;
+    this.listening = null;
+    this.render();
+  };
+
+  // Rebuild the bindings table and conflict warnings from the draft
+  private render(): void {
+    const conflicts = findBindingConflicts(this.draft.bindings);
+    this.bindingsTable.innerHTML = '';
+
+    CONTROL_ACTIONS.forEach(({ action, label }) => {
+      const labelElement = document.createElement('div');
+      labelElement.textContent = label;
+      this.bindingsTable.appendChild(labelElement);
+
+      for (let slot = 0; slot < BINDING_SLOTS; slot++) {
+        const key = this.draft.bindings[action][slot];
+        const isListening = this.listening?.action === action && this.listening.slot === slot;
+
+        const button = document.createElement('button');
+        button.textContent = isListening ? 'Press a key…' : key ? formatKey(key) : '—';
+        button.style.padding = '6px 8px';
+        button.style.fontSize = '14px';
+        button.style.color = 'white';
+        button.style.backgroundColor = isListening ? '#2196F3' : 'rgba(255, 255, 255, 0.15)';
+        button.style.border = conflicts.has(key) ? '2px solid #FF5252' : '2px solid transparent';
+        button.style.borderRadius = '5px';
+        button.style.cursor = 'pointer';
+        button.addEventListener('click', () => {
+          // Clicking the waiting binding again cancels
+          this.listening = isListening ? null : { action, slot };
+          this.render();
+        });
+        this.bindingsTable.appendChild(button);
+      }
+    });
+
+    this.steeringButton.textContent = this.draft.steering === 'tank'
+      ? 'Steering: Tank (left/right turn)'
+      : 'Steering: Strafe (left/right move sideways)';
+    this.minimapHintButton.textContent = `Map shows nearest barren region: ${this.draft.minimapHint ? 'On' : 'Off'}`;
+    const planetMesh = PLANET_MESH_TYPES.find(type => type.id === this.draft.planetMesh)!;
+    this.planetMeshButton.textContent = `Planet mesh (new planets): ${planetMesh.name}`;
+    this.zenStormsButton.textContent = `Drought storms in Zen (new games): ${this.draft.zenStorms ? 'On' : 'Off'}`;
+
+    // Describe conflicts and block saving until they are resolved
+    const labels = new Map(CONTROL_ACTIONS.map(({ action, label }) => [action, label]));
+    this.conflictText.textContent = Array.from(conflicts.entries())
+      .map(([key, actions]) => `${formatKey(key)} is bound to ${actions.map(a => labels.get(a)).join(' and ')}`)
+      .join('. ');
+    this.saveButton.disabled = conflicts.size > 0;
+    this.saveButton.style.opacity = conflicts.size > 0 ? '0.5' : '1';
+  }
+
+  // Option button that flips a draft setting when clicked
+  private createToggle(onToggle: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.style.marginTop = '8px';
+    button.style.padding = '6px 8px';
+    button.style.fontSize = '14px';
+    button.style.color = 'white';
+    button.style.backgroundColor = 'rgba(255, 255, 255, 0.15)';
+    button.style.border = 'none';
+    button.style.borderRadius = '5px';
+    button.style.cursor = 'pointer';
+    button.addEventListener('click', () => {
+      onToggle();
+      this.render();
+    });
+    return button;
+  }
+}
@@ -1,109 +1,359 @@
 import * as THREE from 'three';
 import { Vector3 } from 'three';
 import { PerlinNoise } from './utils/noise';
+import { SphereSpatialIndex } from './utils/spatialIndex';
+import { SeededRandom, deriveSeed } from './utils/random';
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { BIOME_LIST, Biome, BiomeClassifier, DEFAULT_SEA_FRACTION, getBiomeIndex } from './biomes';
+import { EventEmitter } from './utils/eventEmitter';
+
+// How the planet surface is triangulated
+// UV spheres pinch at the poles, icospheres and cube spheres spread their vertices far more evenly
+export type PlanetMeshType = 'uv' | 'icosphere' | 'cube';
+
+export const PLANET_MESH_TYPES: Array<{ id: PlanetMeshType; name: string }> = [
+  { id: 'uv', name: 'UV sphere' },
+  { id: 'icosphere', name: 'Icosphere' },
+  { id: 'cube', name: 'Cube sphere' }
+];
+
+export function isPlanetMeshType(value: unknown): value is PlanetMeshType {
+  return PLANET_MESH_TYPES.some(type => type.id === value);
+}
 
 // Interface for tracking vertex state
 interface VertexState {
   visited: boolean;
-  fertility: number;  // 0-1 value for future grass growth
+  fertility: number;  // 0-1 value driving grass growth, as of fertilityTime
+  fertilityTime: number; // World time fertility was last set, it decays slowly from there
+  passes: number; // Times the player has moved onto the vertex, some biomes need several passes to be covered
 }
 
+// A covered vertex grass can grow on
+export interface FertileVertex {
+  index: number;
+  position: THREE.Vector3;
+  normal: THREE.Vector3;
+  fertility: number;
+  area: number;
+  biome: Biome;
+}
+
+// Events emitted by WorldSphere as vertices change, each with the (canonical) vertex index
+export type WorldSphereEvents = {
+  vertexVisited: number; // The vertex was covered
+  fertilityChanged: number; // The covered vertex became more fertile, or its fertility decayed since it was last checked
+  vertexUnvisited: number; // The covered vertex turned barren again
+};
+
+// Compact snapshot of the per-vertex coverage state, used for saving progress
+export interface VertexStateSnapshot {
+  vertexCount: number;
+  visited: Uint8Array; // Bitset, one bit per vertex
+  fertility: Uint8Array; // Fertility quantized to 0-255, one byte per visited vertex in index order
+  passes?: Uint8Array; // Passes per vertex (capped at 255), missing in saves from before biomes
+}
+
+// Times the ground texture repeats around the equator
+const TEXTURE_REPEAT = 32;
+
+// Fertility a covered vertex gains per pass (times the biome's fertility multiplier), and loses per second
+// It never decays below a single pass's worth, so grown grass keeps its ground
+const FERTILITY_PER_PASS = 0.25;
+const FERTILITY_DECAY_RATE = 0.002;
+const FERTILITY_SETTLE_INTERVAL = 5; // Seconds between checks of each covered vertex for decay worth announcing
+
 export class WorldSphere {
+  readonly events = new EventEmitter<WorldSphereEvents>();
   private mesh: THREE.Mesh;
   private radius: number;
   private segments: number;
+  private meshType: PlanetMeshType;
   private gridSize: number;
+  private seed: number; // World seed, the same seed always produces the same planet
   private noise: PerlinNoise;
+  private random: SeededRandom; // Seeded random source for cloud placement
   private noiseScale: number = 10.0; // Scale factor for noise
   private noiseStrength: number = 1.0; // Strength of the noise effect
   private sun!: THREE.DirectionalLight; // Using definite assignment assertion
   private moon!: THREE.DirectionalLight; // Using definite assignment assertion
   private clouds!: THREE.Group; // Using definite assignment assertion
   private cloudHeight: number = 1.5; // Height multiplier for clouds above sphere surface
+  private water: THREE.Mesh | null = null; // Translucent sea surface, null on planets without water
+  private waterTime = { value: 0 }; // Shader uniform driving the waves
+  private waveHeight: number = 0.04; // Amplitude of the sea surface waves
   
   // Properties for visited vertex tracking
   private vertexStates: Map<number, VertexState> = new Map();
   private vertexPositions: Float32Array;
   private vertexColors: Float32Array;
-  private visitColor: THREE.Color = new THREE.Color(0x00ff00); // Green color for visited areas
-  private originalColor: THREE.Color = new THREE.Color(0xffffff); // White for unvisited areas
+  private vertexElevations: Float32Array; // Terrain displacement of each vertex
+  private vertexBiomes: Uint8Array; // Index into BIOME_LIST for each vertex
+  private biomeClassifier: BiomeClassifier;
+  private verticesUnderPlayer: Set<number> = new Set(); // Vertices inside the coloring cylinder at the last marking
+  private time: number = 0; // Seconds of simulated time, for fertility decay
+  private fertilityScan: Iterator<[number, VertexState]> | null = null; // Where settleFertility left off
   private totalVertices: number = 0;
   private visitedVertexCount: number = 0;
+  private canonicalVertex: Int32Array; // First vertex at the same position, seam and pole duplicates share one
+  private nextDuplicate: Int32Array; // Next vertex at the same position, a ring through all duplicates
+  private vertexAreas: Float32Array; // Surface area each vertex stands for, zero for non-canonical duplicates
+  private totalArea: number = 0;
+  private visitedArea: number = 0;
+  private spatialIndex: SphereSpatialIndex; // Direction buckets for finding vertices near the player
+  private minVertexRadius: number = Infinity; // Lowest terrain radius, bounds the marking search cone
+  private vertexRadii: Float32Array; // Distance of each displaced vertex from the center, for height sampling
+  private vertexTriangleOffsets: Int32Array | null = null; // Triangles around each canonical vertex (CSR offsets),
+  private vertexTriangles: Int32Array | null = null; // for height sampling on meshes without a lat/long grid
   
-  constructor(radius: number, segments: number, gridSize: number) {
+  // segments sets the resolution, other mesh types get about as many vertices as a UV sphere with that many segments
+  // seaFraction is the share of the surface below sea level (0 for a planet without water)
+  constructor(
+    radius: number,
+    segments: number,
+    gridSize: number,
+    seed: number,
+    meshType: PlanetMeshType = 'uv',
+    seaFraction: number = DEFAULT_SEA_FRACTION
+  ) {
     this.radius = radius;
     this.segments = segments;
+    this.meshType = meshType;
     this.gridSize = gridSize;
+    this.seed = seed;
     
-    // Initialize noise generator with a random seed
-    this.noise = new PerlinNoise(Math.random() * 1000);
+    // Initialize noise generator and cloud randomness from the world seed
+    this.noise = new PerlinNoise(seed);
+    this.random = new SeededRandom(deriveSeed(seed, 1));
     
-    // Revert back to sphere geometry with high segment count
-    const geometry = new THREE.SphereGeometry(radius, segments, segments);
+    // Build the chosen sphere mesh with high segment count
+    const geometry = this.createPlanetGeometry(radius, segments);
     
     // Store original vertex positions for visited vertex tracking
     const positionAttribute = geometry.getAttribute('position');
     this.vertexPositions = new Float32Array(positionAttribute.array);
-    
-    // Initialize vertex colors
     const vertexCount = positionAttribute.count;
     this.totalVertices = vertexCount;
+    
+    // Apply noise to the geometry
+    this.vertexElevations = new Float32Array(vertexCount);
+    this.applyNoiseToGeometry(geometry);
+    
+    // Sort every vertex into a biome and give it the biome's barren color
+    this.biomeClassifier = new BiomeClassifier(deriveSeed(seed, 2), this.vertexElevations, seaFraction);
+    this.vertexBiomes = new Uint8Array(vertexCount);
     this.vertexColors = new Float32Array(vertexCount * 3);
+    const textureBlend = new Float32Array(vertexCount);
+    const direction = new THREE.Vector3();
     for (let i = 0; i < vertexCount; i++) {
-      this.vertexColors[i * 3] = this.originalColor.r;
-      this.vertexColors[i * 3 + 1] = this.originalColor.g;
-      this.vertexColors[i * 3 + 2] = this.originalColor.b;
+      direction.fromArray(this.vertexPositions, i * 3).normalize();
+      const biomeIndex = getBiomeIndex(this.biomeClassifier.classify(direction, this.vertexElevations[i]));
+      const biome = BIOME_LIST[biomeIndex];
+      this.vertexBiomes[i] = biomeIndex;
+      biome.color.toArray(this.vertexColors, i * 3);
+      textureBlend[i] = biome.textureBlend;
     }
     
-    // Add vertex colors to geometry
+    // Add vertex colors and the texture blend to geometry
     geometry.setAttribute('color', new THREE.BufferAttribute(this.vertexColors, 3));
+    geometry.setAttribute('textureBlend', new THREE.BufferAttribute(textureBlend, 1));
     
-    // Apply noise to the geometry
-    this.applyNoiseToGeometry(geometry);
+    // Unify duplicated vertices and weigh each by the surface around it, so coverage measures true area
+    // Only land that can grow something counts towards coverage
+    [this.canonicalVertex, this.nextDuplicate] = this.findDuplicateVertices(this.vertexPositions);
+    this.vertexAreas = this.computeVertexAreas(geometry);
+    this.totalArea = this.vertexAreas.reduce(
+      (sum, area, i) => this.isVertexCoverable(i) ? sum + area : sum, 0
+    );
+    this.unifyDuplicateNormals(geometry);
+    if (meshType !== 'uv') {
+      this.buildVertexTriangles(geometry);
+    }
+    
+    // Build the spatial index once so marking only visits vertices near the player
+    this.spatialIndex = new SphereSpatialIndex(positionAttribute.array);
+    
+    // Cache the terrain radius of every vertex for height queries
+    this.vertexRadii = new Float32Array(vertexCount);
+    for (let i = 0; i < vertexCount; i++) {
+      const vertexRadius = Math.sqrt(
+        positionAttribute.getX(i) ** 2 +
+        positionAttribute.getY(i) ** 2 +
+        positionAttribute.getZ(i) ** 2
+      );
+      this.vertexRadii[i] = vertexRadius;
+      this.minVertexRadius = Math.min(this.minVertexRadius, vertexRadius);
+    }
     
-    // Create material with texture
-    const textureLoader = new THREE.TextureLoader();
+    // Create material, the ground textures are added with setGroundTextures
     const material = new THREE.MeshStandardMaterial({
       wireframe: false,
       roughness: 0.8,
       metalness: 0.1,
-      vertexColors: true // Enable vertex colors
+      vertexColors: true, // Enable vertex colors
+      displacementScale: 0.2, // Fine surface relief on top of the noise terrain
+      displacementBias: -0.1 // Centered on the terrain, so the player's hover height still matches
     });
-
-    console.log('Attempting to load texture...');
-    // Load texture asynchronously
-    textureLoader.load(
-      './assets/dirt.jpg',  // Updated path to match webpack output
-      (texture) => {
-        console.log('Texture loaded successfully');
-        texture.wrapS = THREE.RepeatWrapping;
-        texture.wrapT = THREE.RepeatWrapping;
-        texture.repeat.set(32, 32); // Repeat texture 4 times in each direction
-        material.map = texture;
-        material.needsUpdate = true;
-        console.log('Material updated with texture');
-      },
-      (progress) => {
-        console.log('Loading texture:', (progress.loaded / progress.total * 100) + '%');
-      },
-      (error) => {
-        console.error('Error loading texture:', error);
-      }
-    );
+    // Shadow pass material, three copies the displacement settings over from the material above
+    const depthMaterial = new THREE.MeshDepthMaterial({ depthPacking: THREE.RGBADepthPacking });
+    this.applyGroundShader(material, depthMaterial);
     
     // Create mesh
     this.mesh = new THREE.Mesh(geometry, material);
+    this.mesh.customDepthMaterial = depthMaterial;
     this.mesh.receiveShadow = true;
     this.mesh.castShadow = true;
     
     // Add celestial objects (sun, moon, clouds)
     this.setupCelestialObjects();
+    this.createWater();
   }
   
   getMesh(): THREE.Mesh {
     return this.mesh;
   }
   
+  // Radius of the undisplaced sphere
+  getRadius(): number {
+    return this.radius;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  getMeshType(): PlanetMeshType {
+    return this.meshType;
+  }
+  
+  // Use the loaded ground textures, they share the same wrapping (the triplanar shader sets their scale)
+  // The textures belong to the asset cache and outlive the planet
+  public setGroundTextures(textures: { map: THREE.Texture; normalMap: THREE.Texture; displacementMap: THREE.Texture }): void {
+    const material = this.mesh.material as THREE.MeshStandardMaterial;
+    [textures.map, textures.normalMap, textures.displacementMap].forEach(texture => {
+      texture.wrapS = THREE.RepeatWrapping;
+      texture.wrapT = THREE.RepeatWrapping;
+    });
+    material.map = textures.map;
+    material.normalMap = textures.normalMap;
+    material.displacementMap = textures.displacementMap;
+    material.needsUpdate = true;
+  }
+  
+  // Ground shader tweaks: the per-vertex textureBlend attribute fades the ground texture out, so water, sand and
+  // snow read as flat colors, and all ground maps are projected triplanarly from the three axes instead of using
+  // the mesh UVs, which smear towards the poles and break at the seam
+  // The depth material gets the same displacement, so shadows are cast from the surface that is drawn
+  private applyGroundShader(material: THREE.MeshStandardMaterial, depthMaterial: THREE.MeshDepthMaterial): void {
+    // One texture tile spans as much surface as with the old UV mapping, repeated TEXTURE_REPEAT times around the equator
+    const triplanarScale = { value: TEXTURE_REPEAT / (2 * Math.PI * this.radius) };
+    
+    // Blend weights favor the axis the surface faces, sharpened so the projections only mix on diagonals
+    const triplanarFunctions = `
+      uniform float triplanarScale;
+      vec3 triplanarWeights(vec3 surfaceNormal) {
+        vec3 weights = pow(abs(surfaceNormal), vec3(4.0));
+        return weights / (weights.x + weights.y + weights.z);
+      }
+      vec4 triplanarSample(sampler2D tex, vec3 coord, vec3 weights) {
+        return texture2D(tex, coord.zy) * weights.x + texture2D(tex, coord.xz) * weights.y + texture2D(tex, coord.xy) * weights.z;
+      }`;
+    const varyings = `
+      varying float vTextureBlend;
+      varying vec3 vTriplanarPosition; // Undisplaced object space position
+      varying vec3 vTriplanarNormal; // Object space normal
+      varying vec3 vViewAxisX; // Object space axes in view space, to bring triplanar normals into view space
+      varying vec3 vViewAxisY;
+      varying vec3 vViewAxisZ;`;
+    const displacement = `#ifdef USE_DISPLACEMENTMAP
+        transformed += normalize(objectNormal) * (triplanarSample(
+          displacementMap, position * triplanarScale, triplanarWeights(objectNormal)
+        ).x * displacementScale + displacementBias);
+      #endif`;
+    
+    material.onBeforeCompile = (shader) => {
+      shader.uniforms.triplanarScale = triplanarScale;
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', `#include <common>\nattribute float textureBlend;${varyings}${triplanarFunctions}`)
+        .replace('#include <begin_vertex>', `#include <begin_vertex>
+          vTextureBlend = textureBlend;
+          vTriplanarPosition = position;
+          vTriplanarNormal = normalize(objectNormal);
+          vViewAxisX = normalMatrix[0];
+          vViewAxisY = normalMatrix[1];
+          vViewAxisZ = normalMatrix[2];`)
+        .replace('#include <displacementmap_vertex>', displacement);
+      shader.fragmentShader = shader.fragmentShader
+        .replace('#include <common>', `#include <common>${varyings}${triplanarFunctions}`)
+        .replace('#include <map_fragment>', `#ifdef USE_MAP
+            vec4 sampledDiffuseColor = triplanarSample(
+              map, vTriplanarPosition * triplanarScale, triplanarWeights(vTriplanarNormal)
+            );
+            diffuseColor *= mix(vec4(1.0), sampledDiffuseColor, vTextureBlend);
+          #endif`)
+        .replace('#include <normal_fragment_maps>', `#ifdef USE_NORMALMAP
+            // Whiteout blend: each projection's tangent space normal is swizzled onto its axis and added to the surface normal
+            vec3 surfaceNormal = normalize(vTriplanarNormal);
+            vec3 coord = vTriplanarPosition * triplanarScale;
+            vec3 weights = triplanarWeights(surfaceNormal);
+            vec3 axisSign = sign(surfaceNormal);
+            vec3 normalX = texture2D(normalMap, coord.zy).xyz * 2.0 - 1.0;
+            vec3 normalY = texture2D(normalMap, coord.xz).xyz * 2.0 - 1.0;
+            vec3 normalZ = texture2D(normalMap, coord.xy).xyz * 2.0 - 1.0;
+            normalX.xy *= normalScale;
+            normalY.xy *= normalScale;
+            normalZ.xy *= normalScale;
+            normalX.x *= axisSign.x;
+            normalY.x *= axisSign.y;
+            normalZ.x *= -axisSign.z;
+            normalX = vec3(normalX.xy + surfaceNormal.zy, abs(normalX.z) * surfaceNormal.x);
+            normalY = vec3(normalY.xy + surfaceNormal.xz, abs(normalY.z) * surfaceNormal.y);
+            normalZ = vec3(normalZ.xy + surfaceNormal.xy, abs(normalZ.z) * surfaceNormal.z);
+            vec3 mappedNormal = normalize(normalX.zyx * weights.x + normalY.xzy * weights.y + normalZ.xyz * weights.z);
+            normal = normalize(mappedNormal.x * vViewAxisX + mappedNormal.y * vViewAxisY + mappedNormal.z * vViewAxisZ);
+          #endif`);
+    };
+    
+    depthMaterial.onBeforeCompile = (shader) => {
+      shader.uniforms.triplanarScale = triplanarScale;
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', `#include <common>${triplanarFunctions}`)
+        .replace('#include <displacementmap_vertex>', displacement);
+    };
+  }
+  
+  // Create the sea as a separate sphere at sea level, its surface rolls with a few overlapping waves
+  private createWater(): void {
+    const seaLevel = this.getSeaLevel();
+    if (!isFinite(seaLevel)) return;
+    
+    const material = new THREE.MeshStandardMaterial({
+      color: 0x2f7fc1,
+      transparent: true,
+      opacity: 0.65,
+      roughness: 0.15,
+      metalness: 0.1,
+      depthWrite: false // The seabed stays visible through the water
+    });
+    material.onBeforeCompile = (shader) => {
+      shader.uniforms.time = this.waterTime;
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', `#include <common>
+          uniform float time;
+          float waveOffset(vec3 direction) {
+            return sin(direction.x * 60.0 + time * 1.3) * cos(direction.z * 50.0 + time * 0.9)
+              + 0.5 * sin((direction.y + direction.x) * 90.0 - time * 1.7);
+          }`)
+        .replace('#include <begin_vertex>', `#include <begin_vertex>
+          transformed += normal * waveOffset(normalize(position)) * ${this.waveHeight.toFixed(3)};`);
+    };
+    
+    this.water = new THREE.Mesh(new THREE.SphereGeometry(seaLevel, 128, 64), material);
+    this.water.receiveShadow = true;
+    this.water.renderOrder = 1; // After the opaque terrain so blending sees it
+    this.mesh.add(this.water);
+  }
+  
   // Setup sun, moon, and clouds
   private setupCelestialObjects(): void {
     // Create sun (directional light)
@@ -163,8 +413,8 @@ export class WorldSphere {
     const cloudCount = 40;
     for (let i = 0; i < cloudCount; i++) {
       // Random position on sphere
-      const phi = Math.random() * Math.PI * 2;
-      const theta = Math.random() * Math.PI;
+      const phi = this.random.next() * Math.PI * 2;
+      const theta = this.random.next() * Math.PI;
       
       const x = this.radius * this.cloudHeight * Math.sin(theta) * Math.cos(phi);
       const y = this.radius * this.cloudHeight * Math.cos(theta);
@@ -178,8 +428,8 @@ export class WorldSphere {
       const up = new THREE.Vector3(0, 1, 0);
       cloudCluster.quaternion.setFromUnitVectors(up, normal);
       
-      // Assign a random rotation speed for variety (between 0.0005 and 0.0015)
-      cloudCluster.userData.rotationSpeed = 0.0005 + Math.random() * 0.001;
+      // Assign a random rotation speed for variety (between 0.03 and 0.09 radians per second)
+      cloudCluster.userData.rotationSpeed = 0.03 + this.random.next() * 0.06;
       
       this.clouds.add(cloudCluster);
     }
@@ -207,10 +457,10 @@ export class WorldSphere {
     
     // Create several overlapping spheres to form a cloud
     const cloudSize = this.radius * 0.1;
-    const puffCount = 5 + Math.floor(Math.random() * 5);
+    const puffCount = 5 + this.random.int(5);
     
     for (let i = 0; i < puffCount; i++) {
-      const puffSize = cloudSize * (0.5 + Math.random() * 0.5);
+      const puffSize = cloudSize * (0.5 + this.random.next() * 0.5);
       const puff = new THREE.Mesh(
         new THREE.SphereGeometry(puffSize, 8, 8),
         cloudMaterial
@@ -218,9 +468,9 @@ export class WorldSphere {
       
       // Random position within cluster
       puff.position.set(
-        (Math.random() - 0.5) * cloudSize * 2,
-        (Math.random() - 0.5) * cloudSize,
-        (Math.random() - 0.5) * cloudSize * 2
+        (this.random.next() - 0.5) * cloudSize * 2,
+        (this.random.next() - 0.5) * cloudSize,
+        (this.random.next() - 0.5) * cloudSize * 2
       );
       
       cluster.add(puff);
@@ -231,22 +481,26 @@ export class WorldSphere {
   
   // No longer need applyRotation as the sphere doesn't rotate anymore
 
-  update(): void {
-    // The sphere is now stationary, but we update cloud rotation
-    this.updateCloudRotation();
+  // Advance the world by dt seconds
+  update(dt: number): void {
+    // The sphere is now stationary, but we update cloud rotation and the waves
+    this.updateCloudRotation(dt);
+    this.waterTime.value += dt;
+    this.time += dt;
+    this.settleFertility(dt);
   }
   
   // Method to update cloud rotation around the center of the sphere
-  private updateCloudRotation(): void {
+  private updateCloudRotation(dt: number): void {
     // Iterate through each cloud cluster
     this.clouds.children.forEach((cloudCluster) => {
       // Get the rotation speed from userData
-      const rotationSpeed = cloudCluster.userData.rotationSpeed || 0.001;
+      const rotationSpeed = cloudCluster.userData.rotationSpeed || 0.06;
       
       // Rotate around the Y-axis (vertical axis) at the center of the sphere
       // This creates a general eastward or westward movement for all clouds
       const currentPosition = cloudCluster.position.clone();
-      const rotatedPosition = currentPosition.clone().applyAxisAngle(new THREE.Vector3(0, 1, 0), rotationSpeed);
+      const rotatedPosition = currentPosition.clone().applyAxisAngle(new THREE.Vector3(0, 1, 0), rotationSpeed * dt);
       
       // Update cloud position
       cloudCluster.position.copy(rotatedPosition);
@@ -258,6 +512,146 @@ export class WorldSphere {
     });
   }
 
+  // Create the (undisplaced) sphere mesh for the chosen mesh type
+  private createPlanetGeometry(radius: number, segments: number): THREE.BufferGeometry {
+    if (this.meshType === 'uv') {
+      return new THREE.SphereGeometry(radius, segments, segments);
+    }
+    
+    // Match the vertex count of a UV sphere with the same segments
+    const targetVertices = (segments + 1) * (segments + 1);
+    let geometry: THREE.BufferGeometry;
+    if (this.meshType === 'icosphere') {
+      // An icosahedron subdivided n times has about 10 (n + 1)^2 vertices
+      const detail = Math.max(1, Math.round(Math.sqrt(targetVertices / 10)) - 1);
+      geometry = new THREE.IcosahedronGeometry(radius, detail);
+    } else {
+      // A cube with n segments per edge has about 6 (n + 1)^2 vertices, pushed out onto the sphere
+      const cubeSegments = Math.max(1, Math.round(Math.sqrt(targetVertices / 6)) - 1);
+      geometry = new THREE.BoxGeometry(2, 2, 2, cubeSegments, cubeSegments, cubeSegments);
+      const positions = geometry.getAttribute('position');
+      const vertex = new THREE.Vector3();
+      for (let i = 0; i < positions.count; i++) {
+        vertex.fromBufferAttribute(positions, i).setLength(radius);
+        positions.setXYZ(i, vertex.x, vertex.y, vertex.z);
+      }
+    }
+    
+    // Share vertices between triangles, normals are recomputed after the noise is applied
+    // (vertices on UV seams and cube edges stay split and are unified by findDuplicateVertices)
+    geometry.deleteAttribute('normal');
+    const merged = mergeVertices(geometry);
+    geometry.dispose();
+    return merged;
+  }
+  
+  // Group vertices sharing a position (the UV seam column and the pole rows)
+  // Returns the canonical (lowest) vertex of each group and a ring linking each vertex to its next duplicate
+  private findDuplicateVertices(positions: Float32Array): [Int32Array, Int32Array] {
+    const vertexCount = positions.length / 3;
+    const canonical = new Int32Array(vertexCount);
+    const next = new Int32Array(vertexCount);
+    const lastInGroup = new Map<string, number>();
+    const precision = 1e4 / this.radius; // Positions closer than radius / 10000 count as the same
+    
+    for (let i = 0; i < vertexCount; i++) {
+      const key = `${Math.round(positions[i * 3] * precision)},${Math.round(positions[i * 3 + 1] * precision)},${Math.round(positions[i * 3 + 2] * precision)}`;
+      const last = lastInGroup.get(key);
+      if (last === undefined) {
+        canonical[i] = i;
+        next[i] = i;
+      } else {
+        // Insert after the last member, closing the ring back to the canonical vertex
+        canonical[i] = canonical[last];
+        next[i] = next[last];
+        next[last] = i;
+      }
+      lastInGroup.set(key, i);
+    }
+    
+    return [canonical, next];
+  }
+  
+  // Give each vertex a third of the area of every (displaced) triangle using it, collected on canonical vertices
+  private computeVertexAreas(geometry: THREE.BufferGeometry): Float32Array {
+    const positionAttribute = geometry.getAttribute('position');
+    const index = geometry.getIndex();
+    const triangleCount = index ? index.count / 3 : positionAttribute.count / 3;
+    const areas = new Float32Array(positionAttribute.count);
+    const triangle = new THREE.Triangle();
+    
+    for (let t = 0; t < triangleCount; t++) {
+      const a = index ? index.getX(t * 3) : t * 3;
+      const b = index ? index.getX(t * 3 + 1) : t * 3 + 1;
+      const c = index ? index.getX(t * 3 + 2) : t * 3 + 2;
+      triangle.a.fromBufferAttribute(positionAttribute, a);
+      triangle.b.fromBufferAttribute(positionAttribute, b);
+      triangle.c.fromBufferAttribute(positionAttribute, c);
+      
+      const share = triangle.getArea() / 3;
+      areas[this.canonicalVertex[a]] += share;
+      areas[this.canonicalVertex[b]] += share;
+      areas[this.canonicalVertex[c]] += share;
+    }
+    
+    return areas;
+  }
+  
+  // Give duplicates the average normal of their group, so seams don't show up in the lighting
+  private unifyDuplicateNormals(geometry: THREE.BufferGeometry): void {
+    const normalAttribute = geometry.getAttribute('normal');
+    const normal = new THREE.Vector3();
+    const sum = new THREE.Vector3();
+    
+    for (let i = 0; i < normalAttribute.count; i++) {
+      if (this.canonicalVertex[i] !== i || this.nextDuplicate[i] === i) continue;
+      
+      sum.set(0, 0, 0);
+      let j = i;
+      do {
+        sum.add(normal.fromBufferAttribute(normalAttribute, j));
+        j = this.nextDuplicate[j];
+      } while (j !== i);
+      sum.normalize();
+      
+      do {
+        normalAttribute.setXYZ(j, sum.x, sum.y, sum.z);
+        j = this.nextDuplicate[j];
+      } while (j !== i);
+    }
+    
+    normalAttribute.needsUpdate = true;
+  }
+  
+  // List the triangles around each canonical vertex, for sampleHeightNearVertex
+  private buildVertexTriangles(geometry: THREE.BufferGeometry): void {
+    const index = geometry.getIndex()!;
+    const vertexCount = geometry.getAttribute('position').count;
+    const counts = new Int32Array(vertexCount + 1);
+    for (let i = 0; i < index.count; i++) {
+      counts[this.canonicalVertex[index.getX(i)]]++;
+    }
+    
+    // Each triangle is stored as its three vertex indices
+    const offsets = new Int32Array(vertexCount + 1);
+    for (let i = 0; i < vertexCount; i++) {
+      offsets[i + 1] = offsets[i] + counts[i] * 3;
+    }
+    const triangles = new Int32Array(offsets[vertexCount]);
+    const fill = offsets.slice(0, vertexCount);
+    for (let t = 0; t < index.count; t += 3) {
+      for (let k = 0; k < 3; k++) {
+        const owner = this.canonicalVertex[index.getX(t + k)];
+        triangles[fill[owner]++] = index.getX(t);
+        triangles[fill[owner]++] = index.getX(t + 1);
+        triangles[fill[owner]++] = index.getX(t + 2);
+      }
+    }
+    
+    this.vertexTriangleOffsets = offsets;
+    this.vertexTriangles = triangles;
+  }
+  
   // Apply Perlin noise to the sphere geometry to create terrain
   private applyNoiseToGeometry(geometry: THREE.BufferGeometry): void {
     // Get position attribute
@@ -295,6 +689,7 @@ export class WorldSphere {
       // Apply noise to vertex - displace along normal direction
       // Map noise from [0,1] to [-1,1] and scale by noiseStrength
       const displacement = (noiseValue * 2 - 1) * this.noiseStrength;
+      this.vertexElevations[i / 3] = displacement;
       
       // Apply displacement along the normal (direction from center)
       // Calculate new position based on original radius + displacement
@@ -309,74 +704,177 @@ export class WorldSphere {
     geometry.computeVertexNormals();
   }
 
+  // Sample the terrain radius in a direction given in the sphere's local space
+  // The direction is mapped onto the lat/long grid of the SphereGeometry and the radius is
+  // interpolated barycentrically across the triangle that contains it
+  public sampleHeight(direction: THREE.Vector3): number {
+    const length = direction.length();
+    if (length === 0) return this.radius;
+    if (this.meshType !== 'uv') return this.sampleHeightNearVertex(direction);
+    
+    const dx = direction.x / length;
+    const dy = direction.y / length;
+    const dz = direction.z / length;
+    
+    // Invert the SphereGeometry parameterisation:
+    // x = -cos(u * 2PI) * sin(v * PI), y = cos(v * PI), z = sin(u * 2PI) * sin(v * PI)
+    const v = Math.acos(Math.max(-1, Math.min(1, dy))) / Math.PI;
+    let u = Math.atan2(dz, -dx) / (Math.PI * 2);
+    if (u < 0) u += 1;
+    
+    // Find the grid cell and the position within it
+    const fx = u * this.segments;
+    const fy = v * this.segments;
+    const ix = Math.min(this.segments - 1, Math.floor(fx));
+    const iy = Math.min(this.segments - 1, Math.floor(fy));
+    const s = fx - ix;
+    const t = fy - iy;
+    
+    // Corner vertices of the cell, laid out as in SphereGeometry (b = top-left, a = top-right)
+    const rowLength = this.segments + 1;
+    const b = iy * rowLength + ix;
+    const a = b + 1;
+    const c = b + rowLength;
+    const d = c + 1;
+    
+    const ra = this.vertexRadii[a];
+    const rb = this.vertexRadii[b];
+    const rc = this.vertexRadii[c];
+    const rd = this.vertexRadii[d];
+    
+    // Each cell is split into triangles (a, b, d) and (b, c, d) along the b-d diagonal
+    if (s >= t) {
+      return rb + s * (ra - rb) + t * (rd - ra);
+    }
+    return rb + t * (rc - rb) + s * (rd - rc);
+  }
+
+  // Height sampling for meshes without a grid: find the triangle the direction passes through
+  // among those around the nearest vertex, and interpolate the radius barycentrically across it
+  private sampleHeightNearVertex(direction: THREE.Vector3): number {
+    const nearest = this.canonicalVertex[this.spatialIndex.findNearest(direction)];
+    const offsets = this.vertexTriangleOffsets!;
+    const triangles = this.vertexTriangles!;
+    const positions = this.mesh.geometry.getAttribute('position');
+    const a = new THREE.Vector3();
+    const b = new THREE.Vector3();
+    const c = new THREE.Vector3();
+    const edge1 = new THREE.Vector3();
+    const edge2 = new THREE.Vector3();
+    const p = new THREE.Vector3();
+    const q = new THREE.Vector3();
+    const d = direction.clone().normalize();
+    
+    let bestRadius = this.vertexRadii[nearest];
+    let bestScore = -Infinity;
+    for (let i = offsets[nearest]; i < offsets[nearest + 1]; i += 3) {
+      const ia = triangles[i];
+      const ib = triangles[i + 1];
+      const ic = triangles[i + 2];
+      a.fromBufferAttribute(positions, ia);
+      b.fromBufferAttribute(positions, ib);
+      c.fromBufferAttribute(positions, ic);
+      
+      // Barycentric coordinates of the ray from the center through the triangle's plane (Moller-Trumbore)
+      edge1.subVectors(b, a);
+      edge2.subVectors(c, a);
+      p.crossVectors(d, edge2);
+      const det = edge1.dot(p);
+      if (Math.abs(det) < 1e-12) continue;
+      q.copy(a).negate(); // From the triangle to the ray origin (the center)
+      const v = q.dot(p) / det;
+      q.cross(edge1);
+      const w = d.dot(q) / det;
+      const u = 1 - v - w;
+      
+      // The triangle containing the ray has all weights >= 0, otherwise keep the closest miss
+      const score = Math.min(u, v, w);
+      if (score > bestScore) {
+        bestScore = score;
+        const cu = Math.max(0, u);
+        const cv = Math.max(0, v);
+        const cw = Math.max(0, w);
+        const sum = cu + cv + cw || 1;
+        bestRadius = (cu * this.vertexRadii[ia] + cv * this.vertexRadii[ib] + cw * this.vertexRadii[ic]) / sum;
+      }
+      if (score >= 0) break;
+    }
+    
+    return bestRadius;
+  }
+
   // Method to mark vertices as visited based on player position
   public markVisitedArea(playerPosition: THREE.Vector3, coloringRadius: number): number {
     const geometry = this.mesh.geometry as THREE.BufferGeometry;
     const positionAttribute = geometry.getAttribute('position');
     const colorAttribute = geometry.getAttribute('color');
     
-    // Convert player position to local space
-    const localPlayerPos = playerPosition.clone();
-    this.mesh.worldToLocal(localPlayerPos);
+    // Convert player position to local space and get the direction from center to player
+    const centerToPlayer = this.mesh.worldToLocal(playerPosition.clone()).normalize();
     
-    // Get direction from center to player (normalized)
-    const centerToPlayer = playerPosition.clone().normalize();
+    // A vertex at radius r is within the coloring cylinder only if its angle to the player is
+    // below asin(coloringRadius / r), so the lowest vertex radius gives a safe search cone
+    const searchAngle = Math.asin(Math.min(1, coloringRadius / this.minVertexRadius));
     
-    let newlyVisited = 0;
+    let colorsChanged = false;
+    const underPlayer = new Set<number>();
     
-    // Check each vertex
-    for (let i = 0; i < positionAttribute.count; i++) {
-      // Get vertex position in world space
-      const vertexPos = new THREE.Vector3(
-        positionAttribute.getX(i),
-        positionAttribute.getY(i),
-        positionAttribute.getZ(i)
-      );
-      
-      // Transform vertex position to world space
-      vertexPos.applyMatrix4(this.mesh.matrixWorld);
+    // Check only the vertices the spatial index returns for the search cone
+    this.spatialIndex.forEachInCone(centerToPlayer, searchAngle, (i) => {
+      const x = positionAttribute.getX(i);
+      const y = positionAttribute.getY(i);
+      const z = positionAttribute.getZ(i);
       
       // Calculate distance from vertex to the line from center to player
       // First, project the vertex onto the line from center to player
-      const centerToVertex = vertexPos.clone();
-      const projectionLength = centerToVertex.dot(centerToPlayer);
-      const projectionPoint = centerToPlayer.clone().multiplyScalar(projectionLength);
+      const projectionLength = x * centerToPlayer.x + y * centerToPlayer.y + z * centerToPlayer.z;
+      if (projectionLength <= 0) return;
       
       // Calculate the perpendicular distance from vertex to the line
-      const perpendicularVector = centerToVertex.clone().sub(projectionPoint);
-      const distanceToLine = perpendicularVector.length();
+      const distanceToLine = Math.sqrt(Math.max(0, x * x + y * y + z * z - projectionLength * projectionLength));
       
-      // If vertex is within the cylinder defined by the coloring radius, mark it as visited
-      if (distanceToLine < coloringRadius) {
-        // Get or create vertex state
-        let state = this.vertexStates.get(i);
-        if (!state) {
-          state = { visited: false, fertility: 0 };
-          this.vertexStates.set(i, state);
-        }
+      // Water never gets covered
+      if (distanceToLine >= coloringRadius || !this.isVertexCoverable(i)) return;
+      underPlayer.add(i);
+      
+      // A pass counts when the vertex enters the cylinder, not for every step spent on it
+      if (this.verticesUnderPlayer.has(i)) return;
+      
+      // Get or create vertex state
+      let state = this.vertexStates.get(i);
+      if (!state) {
+        state = { visited: false, fertility: 0, fertilityTime: this.time, passes: 0 };
+        this.vertexStates.set(i, state);
+      }
+      
+      state.passes++;
+      const biome = this.getVertexBiome(i);
+      const wasVisited = state.visited;
+      if (!state.visited && state.passes >= biome.passesToCover) {
+        state.visited = true;
+        this.visitedVertexCount++;
+        this.visitedArea += this.vertexAreas[i];
+      }
+      
+      if (state.visited) {
+        // Every pass over covered ground makes it more fertile, up to what the biome allows
+        state.fertility = Math.min(
+          biome.fertilityMultiplier,
+          this.getFertility(i, state) + FERTILITY_PER_PASS * biome.fertilityMultiplier
+        );
+        state.fertilityTime = this.time;
         
-        // If not already visited, increment counter
-        if (!state.visited) {
-          state.visited = true;
-          this.visitedVertexCount++;
-          newlyVisited++;
-          
-          // Update vertex color to green
-          colorAttribute.setXYZ(
-            i,
-            this.visitColor.r,
-            this.visitColor.g,
-            this.visitColor.b
-          );
+        // Duplicates are covered along with their canonical vertex, only it is announced
+        if (this.canonicalVertex[i] === i) {
+          this.events.emit(wasVisited ? 'fertilityChanged' : 'vertexVisited', i);
         }
-        
-        // Gradually increase fertility for future grass growth
-        state.fertility = 1;//Math.min(1.0, state.fertility + 0.18);
       }
-    }
+      this.applyVertexColor(i, state);
+      colorsChanged = true;
+    });
+    this.verticesUnderPlayer = underPlayer;
     
-    // Update the color attribute if any vertices were newly visited
-    if (newlyVisited > 0) {
+    if (colorsChanged) {
       colorAttribute.needsUpdate = true;
     }
     
@@ -384,64 +882,236 @@ export class WorldSphere {
     return this.getCoveragePercentage();
   }
   
-  // Get the percentage of the sphere that has been visited
-  public getCoveragePercentage(): number {
-    return (this.visitedVertexCount / this.totalVertices) * 100;
+  // Remove the planet from the scene and release its geometry, materials and shadow maps
+  public dispose(): void {
+    this.mesh.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        object.geometry.dispose();
+        const materials = Array.isArray(object.material) ? object.material : [object.material];
+        // Textures are shared through the asset cache and not disposed here
+        materials.forEach((material: THREE.Material) => material.dispose());
+        object.customDepthMaterial?.dispose();
+      } else if (object instanceof THREE.DirectionalLight) {
+        object.dispose();
+      }
+    });
+    
+    if (this.mesh.parent) {
+      this.mesh.parent.remove(this.mesh);
+    }
+    this.vertexStates.clear();
+    this.verticesUnderPlayer.clear();
+    this.events.clear();
   }
   
-  // Method to uncolor vertices (for future use)
-  public uncolorVertex(vertexIndex: number): void {
-    const state = this.vertexStates.get(vertexIndex);
-    if (state && state.visited) {
-      state.visited = false;
-      state.fertility = 0;
-      this.visitedVertexCount--;
+  // Fertility of a vertex now, after decaying since it was last set
+  private getFertility(vertexIndex: number, state: VertexState): number {
+    const floor = FERTILITY_PER_PASS * this.getVertexBiome(vertexIndex).fertilityMultiplier;
+    const decayed = state.fertility - FERTILITY_DECAY_RATE * (this.time - state.fertilityTime);
+    return Math.max(Math.min(state.fertility, floor), decayed);
+  }
+  
+  // Fertility decays lazily, so walk the states a slice per update and store (and announce) how far it decayed,
+  // each state gets its turn every FERTILITY_SETTLE_INTERVAL seconds
+  private settleFertility(dt: number): void {
+    let remaining = Math.ceil(this.vertexStates.size * dt / FERTILITY_SETTLE_INTERVAL);
+    while (remaining-- > 0) {
+      if (!this.fertilityScan) {
+        this.fertilityScan = this.vertexStates.entries();
+      }
+      const next = this.fertilityScan.next();
+      if (next.done) {
+        // Start over on the next update
+        this.fertilityScan = null;
+        return;
+      }
       
-      // Reset color to original
-      const colorAttribute = this.mesh.geometry.getAttribute('color');
-      colorAttribute.setXYZ(
-        vertexIndex,
-        this.originalColor.r,
-        this.originalColor.g,
-        this.originalColor.b
-      );
-      colorAttribute.needsUpdate = true;
+      const [i, state] = next.value;
+      if (!state.visited) continue;
+      
+      // Decay is linear, so storing it now changes nothing about how it continues
+      const fertility = this.getFertility(i, state);
+      if (fertility < state.fertility) {
+        state.fertility = fertility;
+        state.fertilityTime = this.time;
+        if (this.canonicalVertex[i] === i) {
+          this.events.emit('fertilityChanged', i);
+        }
+      }
     }
   }
   
-  // Get all fertile vertices for future grass growth
-  // Returns ALL vertices that have been marked as visited, not just the ones near the player's current position
-  // This ensures grass grows on all visited areas, even if the player moved quickly over them
-  public getFertileVertices(): Array<{index: number, position: THREE.Vector3, normal: THREE.Vector3, fertility: number}> {
-    const fertileVertices: Array<{index: number, position: THREE.Vector3, normal: THREE.Vector3, fertility: number}> = [];
-    const geometry = this.mesh.geometry as THREE.BufferGeometry;
-    const positionAttribute = geometry.getAttribute('position');
-    const normalAttribute = geometry.getAttribute('normal');
+  // Color a vertex by its biome, partly covered vertices are tinted by how many passes they still need
+  private applyVertexColor(vertexIndex: number, state: VertexState | undefined): void {
+    const biome = this.getVertexBiome(vertexIndex);
+    const progress = state ? (state.visited ? 1 : Math.min(1, state.passes / biome.passesToCover)) : 0;
+    const color = new THREE.Color().lerpColors(biome.color, biome.visitedColor, progress);
+    this.mesh.geometry.getAttribute('color').setXYZ(vertexIndex, color.r, color.g, color.b);
+  }
+  
+  // Get the percentage of the sphere that has been visited
+  public getCoveragePercentage(): number {
+    return this.totalArea > 0 ? (this.visitedArea / this.totalArea) * 100 : 0;
+  }
+  
+  // Capture the visited/fertility state of every vertex in a compact form
+  public exportVertexStates(): VertexStateSnapshot {
+    const visited = new Uint8Array(Math.ceil(this.totalVertices / 8));
+    const fertility = new Uint8Array(this.visitedVertexCount);
+    
+    const passes = new Uint8Array(this.totalVertices);
     
-    this.vertexStates.forEach((state, index) => {
+    let fertilityIndex = 0;
+    for (let i = 0; i < this.totalVertices; i++) {
+      const state = this.vertexStates.get(i);
+      if (!state) continue;
+      passes[i] = Math.min(255, state.passes);
       if (state.visited) {
-        // Get vertex position and normal
-        const position = new THREE.Vector3(
-          positionAttribute.getX(index),
-          positionAttribute.getY(index),
-          positionAttribute.getZ(index)
-        );
-        
-        const normal = new THREE.Vector3(
-          normalAttribute.getX(index),
-          normalAttribute.getY(index),
-          normalAttribute.getZ(index)
-        );
-        
-        fertileVertices.push({
-          index,
-          position: position.clone(),
-          normal: normal.clone(),
-          fertility: state.fertility
-        });
+        visited[i >> 3] |= 1 << (i & 7);
+        fertility[fertilityIndex++] = Math.round(Math.max(0, Math.min(1, this.getFertility(i, state))) * 255);
+      }
+    }
+    
+    return { vertexCount: this.totalVertices, visited, fertility, passes };
+  }
+  
+  // Restore a snapshot taken with exportVertexStates, returns false if it doesn't match this planet
+  public importVertexStates(snapshot: VertexStateSnapshot): boolean {
+    if (snapshot.vertexCount !== this.totalVertices) {
+      console.error('Saved vertex state does not match this planet, ignoring it');
+      return false;
+    }
+    
+    const colorAttribute = this.mesh.geometry.getAttribute('color');
+    this.vertexStates.forEach((state, i) => {
+      if (state.visited && this.canonicalVertex[i] === i) {
+        this.events.emit('vertexUnvisited', i);
       }
     });
+    this.vertexStates.clear();
+    this.verticesUnderPlayer.clear();
+    this.visitedVertexCount = 0;
+    this.visitedArea = 0;
     
-    return fertileVertices;
+    let fertilityIndex = 0;
+    for (let i = 0; i < this.totalVertices; i++) {
+      const visited = (snapshot.visited[i >> 3] & (1 << (i & 7))) !== 0;
+      const fertility = visited ? (snapshot.fertility[fertilityIndex++] ?? 255) / 255 : 0;
+      const biome = this.getVertexBiome(i);
+      // Saves from before biomes only know visited vertices, which took a single pass
+      const passes = snapshot.passes ? snapshot.passes[i] : (visited ? biome.passesToCover : 0);
+      
+      // Saves from before biomes may have covered what is now water
+      if (this.isVertexCoverable(i) && (visited || passes > 0)) {
+        this.vertexStates.set(i, { visited, fertility, fertilityTime: this.time, passes });
+        if (visited) {
+          this.visitedVertexCount++;
+          this.visitedArea += this.vertexAreas[i];
+          if (this.canonicalVertex[i] === i) {
+            this.events.emit('vertexVisited', i);
+          }
+        }
+      }
+      this.applyVertexColor(i, this.vertexStates.get(i));
+    }
+    
+    colorAttribute.needsUpdate = true;
+    return true;
+  }
+  
+  // Find the vertex whose direction from the center is closest to a local-space direction
+  public findNearestVertex(direction: THREE.Vector3): number {
+    return this.spatialIndex.findNearest(direction);
+  }
+  
+  // Find the canonical vertices within a surface distance of a local-space direction
+  public findVerticesNear(direction: THREE.Vector3, distance: number): number[] {
+    const vertices: number[] = [];
+    this.spatialIndex.forEachInCone(direction, distance / this.radius, (i) => {
+      if (this.canonicalVertex[i] === i) {
+        vertices.push(i);
+      }
+    });
+    return vertices;
+  }
+  
+  public isVertexVisited(vertexIndex: number): boolean {
+    return this.vertexStates.get(vertexIndex)?.visited ?? false;
+  }
+  
+  // Whether the vertex can be covered at all (nothing below sea level can)
+  public isVertexCoverable(vertexIndex: number): boolean {
+    return !this.isVertexUnderwater(vertexIndex) && this.getVertexBiome(vertexIndex).fertilityMultiplier > 0;
+  }
+  
+  public isVertexUnderwater(vertexIndex: number): boolean {
+    return this.vertexElevations[vertexIndex] < this.biomeClassifier.getSeaLevel();
+  }
+  
+  // Whether the ground below a local-space position is under water
+  public isUnderwater(position: THREE.Vector3): boolean {
+    return this.sampleHeight(position) < this.getSeaLevel();
+  }
+  
+  public getVertexBiome(vertexIndex: number): Biome {
+    return BIOME_LIST[this.vertexBiomes[vertexIndex]];
+  }
+  
+  // Radius of the water surface, -Infinity on planets without water
+  public getSeaLevel(): number {
+    return this.radius + this.biomeClassifier.getSeaLevel();
+  }
+  
+  // Get the vertex color buffer (RGB per vertex, 0-1), e.g. for drawing maps of the planet
+  public getVertexColors(): ArrayLike<number> {
+    return this.mesh.geometry.getAttribute('color').array;
+  }
+  
+  // Revert a vertex to barren, e.g. when a hazard withers it
+  // Duplicates at the same position are uncolored with it, so they never disagree
+  public uncolorVertex(vertexIndex: number): void {
+    const colorAttribute = this.mesh.geometry.getAttribute('color');
+    let wasVisited = false;
+    let i = vertexIndex;
+    do {
+      const state = this.vertexStates.get(i);
+      if (state && (state.visited || state.passes > 0)) {
+        if (state.visited) {
+          wasVisited = true;
+          this.visitedVertexCount--;
+          this.visitedArea = Math.max(0, this.visitedArea - this.vertexAreas[i]);
+        }
+        state.visited = false;
+        state.fertility = 0;
+        state.passes = 0;
+        
+        // Reset color to the biome's barren color
+        this.applyVertexColor(i, state);
+        colorAttribute.needsUpdate = true;
+      }
+      // Ground withering under the player counts as a fresh pass on the next marking
+      this.verticesUnderPlayer.delete(i);
+      i = this.nextDuplicate[i];
+    } while (i !== vertexIndex);
+    
+    if (wasVisited) {
+      this.events.emit('vertexUnvisited', this.canonicalVertex[vertexIndex]);
+    }
+  }
+  
+  // Where grass grows on a covered vertex and how much, null if the vertex isn't covered
+  public getFertileVertex(vertexIndex: number): FertileVertex | null {
+    const state = this.vertexStates.get(vertexIndex);
+    if (!state || !state.visited) return null;
+    
+    const geometry = this.mesh.geometry as THREE.BufferGeometry;
+    return {
+      index: vertexIndex,
+      position: new THREE.Vector3().fromBufferAttribute(geometry.getAttribute('position'), vertexIndex),
+      normal: new THREE.Vector3().fromBufferAttribute(geometry.getAttribute('normal'), vertexIndex),
+      fertility: this.getFertility(vertexIndex, state),
+      area: this.vertexAreas[vertexIndex],
+      biome: this.getVertexBiome(vertexIndex)
+    };
   }
 }
@@ -0,0 +1,17 @@
+// Green action button used by the in-game menus (pause, results and settings)
+export function createButton(label: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.textContent = label;
+  button.style.marginTop = '10px';
+  button.style.padding = '10px 20px';
+  button.style.fontSize = '18px';
+  button.style.backgroundColor = '#4CAF50';
+  button.style.color = 'white';
+  button.style.border = 'none';
+  button.style.borderRadius = '5px';
+  button.style.cursor = 'pointer';
+  button.addEventListener('mouseenter', () => button.style.backgroundColor = '#45a049');
+  button.addEventListener('mouseleave', () => button.style.backgroundColor = '#4CAF50');
+  button.addEventListener('click', onClick);
+  return button;
+}
@@ -0,0 +1,33 @@
+/**
+ * A minimal typed event emitter. Events maps each event name to the type of its payload.
+ */
+export class EventEmitter<Events extends Record<string, unknown>> {
+  private listeners: { [K in keyof Events]?: Set<(payload: Events[K]) => void> } = {};
+
+  // Subscribe to an event, returns a function that unsubscribes again
+  on<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): () => void {
+    let listeners = this.listeners[event];
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners[event] = listeners;
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    // Copy so listeners can unsubscribe while being called
+    const listeners = this.listeners[event];
+    if (!listeners) return;
+    Array.from(listeners).forEach(listener => listener(payload));
+  }
+
+  // Remove every listener of every event
+  clear(): void {
+    this.listeners = {};
+  }
+}
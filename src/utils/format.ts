@@ -0,0 +1,12 @@
+// Format a duration in seconds as m:ss (or h:mm:ss for long sessions)
+export function formatDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = (seconds % 60).toString().padStart(2, '0');
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs}`;
+  }
+  return `${minutes}:${secs}`;
+}
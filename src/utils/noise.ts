@@ -1,3 +1,5 @@
+import { SeededRandom } from './random';
+
 /**
  * A simple implementation of Perlin noise for terrain generation
  */
@@ -5,12 +7,25 @@ export class PerlinNoise {
   private perm: number[] = [];
   
   constructor(seed = Math.random() * 10000) {
-    // Initialize permutation table with a simple hash of the seed
+    // Initialize permutation table as a seeded shuffle of 0..255
     this.perm = new Array(512);
-    const simpleSeed = Math.floor(seed) % 256;
+    const random = new SeededRandom(seed);
+    const table: number[] = [];
     
     for (let i = 0; i < 256; i++) {
-      this.perm[i] = this.perm[i + 256] = (i + simpleSeed) % 256;
+      table[i] = i;
+    }
+    
+    // Fisher-Yates shuffle
+    for (let i = 255; i > 0; i--) {
+      const j = random.int(i + 1);
+      const swap = table[i];
+      table[i] = table[j];
+      table[j] = swap;
+    }
+    
+    for (let i = 0; i < 256; i++) {
+      this.perm[i] = this.perm[i + 256] = table[i];
     }
   }
   
@@ -0,0 +1,59 @@
+/**
+ * A small seeded pseudo-random number generator (mulberry32) so worlds can be reproduced from a seed
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = Math.floor(seed) >>> 0;
+  }
+
+  // Get the next value in the range [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Get a value in the range [min, max)
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  // Get an integer in the range [0, maxExclusive)
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+}
+
+// Largest seed handed out by randomSeed, kept short so seeds are easy to share
+const MAX_RANDOM_SEED = 1000000;
+
+// Pick a fresh seed for a new world
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_RANDOM_SEED);
+}
+
+// Turn user input (e.g. a URL parameter) into a seed
+// Whole numbers are used as-is, any other text is hashed so words work as seeds too
+export function parseSeed(value: string): number {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) >>> 0;
+  }
+
+  // FNV-1a hash of the text
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Derive an independent seed for a sub-system (e.g. clouds) from the world seed
+export function deriveSeed(seed: number, salt: number): number {
+  return (Math.imul(seed ^ 0x9E3779B9, 0x85EBCA6B) + Math.imul(salt, 0xC2B2AE35)) >>> 0;
+}
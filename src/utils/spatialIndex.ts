@@ -0,0 +1,143 @@
+import * as THREE from 'three';
+
+/**
+ * A uniform bucket grid over unit directions for fast neighbourhood queries on sphere-like meshes.
+ * Vertices are bucketed by their normalized direction from the origin, so radial terrain
+ * displacement does not affect which bucket a vertex lands in.
+ */
+export class SphereSpatialIndex {
+  private resolution: number; // Number of cells along each axis of the [-1, 1] cube
+  private cellSize: number;
+  private cellStart: Uint32Array; // Offset of each cell's first entry in cellEntries (CSR layout)
+  private cellEntries: Uint32Array; // Vertex indices sorted by cell
+  private directions: Float32Array; // Normalized direction of every vertex
+
+  constructor(positions: ArrayLike<number>, resolution: number = 64) {
+    this.resolution = resolution;
+    this.cellSize = 2 / resolution;
+
+    const vertexCount = Math.floor(positions.length / 3);
+    const cellCount = resolution * resolution * resolution;
+    this.directions = new Float32Array(vertexCount * 3);
+    this.cellStart = new Uint32Array(cellCount + 1);
+    this.cellEntries = new Uint32Array(vertexCount);
+
+    // Normalize every vertex and count how many fall into each cell
+    const cellOfVertex = new Uint32Array(vertexCount);
+    for (let i = 0; i < vertexCount; i++) {
+      const x = positions[i * 3];
+      const y = positions[i * 3 + 1];
+      const z = positions[i * 3 + 2];
+      const length = Math.sqrt(x * x + y * y + z * z) || 1;
+
+      this.directions[i * 3] = x / length;
+      this.directions[i * 3 + 1] = y / length;
+      this.directions[i * 3 + 2] = z / length;
+
+      const cell = this.cellIndex(
+        this.cellCoord(x / length),
+        this.cellCoord(y / length),
+        this.cellCoord(z / length)
+      );
+      cellOfVertex[i] = cell;
+      this.cellStart[cell + 1]++;
+    }
+
+    // Prefix sum turns the counts into start offsets
+    for (let c = 0; c < cellCount; c++) {
+      this.cellStart[c + 1] += this.cellStart[c];
+    }
+
+    // Scatter vertex indices into their cells
+    const cursor = this.cellStart.slice(0, cellCount);
+    for (let i = 0; i < vertexCount; i++) {
+      this.cellEntries[cursor[cellOfVertex[i]]++] = i;
+    }
+  }
+
+  // Call back with every vertex whose direction lies within maxAngle (radians) of the given direction
+  forEachInCone(direction: THREE.Vector3, maxAngle: number, callback: (index: number) => void): void {
+    const length = direction.length() || 1;
+    const dx = direction.x / length;
+    const dy = direction.y / length;
+    const dz = direction.z / length;
+
+    // Points within the cone lie inside a ball of this chord radius around the query direction
+    const angle = Math.min(Math.max(maxAngle, 0), Math.PI);
+    const chord = 2 * Math.sin(angle / 2);
+    const minDot = Math.cos(angle);
+
+    const x0 = this.cellCoord(dx - chord), x1 = this.cellCoord(dx + chord);
+    const y0 = this.cellCoord(dy - chord), y1 = this.cellCoord(dy + chord);
+    const z0 = this.cellCoord(dz - chord), z1 = this.cellCoord(dz + chord);
+
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        for (let cz = z0; cz <= z1; cz++) {
+          const cell = this.cellIndex(cx, cy, cz);
+          const end = this.cellStart[cell + 1];
+          for (let e = this.cellStart[cell]; e < end; e++) {
+            const index = this.cellEntries[e];
+            const dot =
+              this.directions[index * 3] * dx +
+              this.directions[index * 3 + 1] * dy +
+              this.directions[index * 3 + 2] * dz;
+            if (dot >= minDot) {
+              callback(index);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  // Get the index of the vertex whose direction is closest to the given direction (-1 if empty)
+  findNearest(direction: THREE.Vector3): number {
+    let best = -1;
+    let bestDot = -Infinity;
+    let searchAngle = Math.asin(Math.min(1, this.cellSize));
+
+    // Grow the search cone until it is guaranteed to contain the nearest vertex
+    while (true) {
+      this.forEachInCone(direction, searchAngle, (index) => {
+        const dot = this.getDirectionDot(index, direction);
+        if (dot > bestDot) {
+          bestDot = dot;
+          best = index;
+        }
+      });
+
+      if (best !== -1 || searchAngle >= Math.PI) {
+        return best;
+      }
+      searchAngle = Math.min(Math.PI, searchAngle * 2);
+    }
+  }
+
+  // Get the normalized direction of a vertex
+  getDirection(index: number, target: THREE.Vector3): THREE.Vector3 {
+    return target.set(
+      this.directions[index * 3],
+      this.directions[index * 3 + 1],
+      this.directions[index * 3 + 2]
+    );
+  }
+
+  private getDirectionDot(index: number, direction: THREE.Vector3): number {
+    const length = direction.length() || 1;
+    return (
+      this.directions[index * 3] * direction.x +
+      this.directions[index * 3 + 1] * direction.y +
+      this.directions[index * 3 + 2] * direction.z
+    ) / length;
+  }
+
+  private cellCoord(value: number): number {
+    const coord = Math.floor((value + 1) / this.cellSize);
+    return Math.min(this.resolution - 1, Math.max(0, coord));
+  }
+
+  private cellIndex(cx: number, cy: number, cz: number): number {
+    return (cx * this.resolution + cy) * this.resolution + cz;
+  }
+}
@@ -0,0 +1,109 @@
+import * as THREE from 'three';
+
+/**
+ * On-screen joystick for touch devices. Drag inside the base to produce an analog 2D vector.
+ */
+export class VirtualJoystick {
+  private base: HTMLElement;
+  private knob: HTMLElement;
+  private radius: number = 60; // Radius of the base in pixels, full deflection at its edge
+  private activePointerId: number | null = null;
+  private center: THREE.Vector2 = new THREE.Vector2();
+  private value: THREE.Vector2 = new THREE.Vector2(); // x = right, y = forward, length <= 1
+
+  constructor() {
+    // Base circle in the bottom-left corner
+    this.base = document.createElement('div');
+    this.base.id = 'virtual-joystick';
+    this.base.style.position = 'absolute';
+    this.base.style.left = '40px';
+    this.base.style.bottom = '40px';
+    this.base.style.width = `${this.radius * 2}px`;
+    this.base.style.height = `${this.radius * 2}px`;
+    this.base.style.borderRadius = '50%';
+    this.base.style.backgroundColor = 'rgba(255, 255, 255, 0.15)';
+    this.base.style.border = '2px solid rgba(255, 255, 255, 0.5)';
+    this.base.style.zIndex = '9999';
+    this.base.style.touchAction = 'none'; // Keep the browser from scrolling or zooming while dragging
+
+    // Knob that follows the finger
+    this.knob = document.createElement('div');
+    this.knob.style.position = 'absolute';
+    this.knob.style.left = '50%';
+    this.knob.style.top = '50%';
+    this.knob.style.width = `${this.radius}px`;
+    this.knob.style.height = `${this.radius}px`;
+    this.knob.style.borderRadius = '50%';
+    this.knob.style.backgroundColor = 'rgba(0, 136, 255, 0.6)'; // Same blue as the player orb
+    this.knob.style.transform = 'translate(-50%, -50%)';
+    this.knob.style.pointerEvents = 'none';
+
+    this.base.appendChild(this.knob);
+    document.body.appendChild(this.base);
+
+    this.base.addEventListener('pointerdown', this.handlePointerDown);
+    this.base.addEventListener('pointermove', this.handlePointerMove);
+    this.base.addEventListener('pointerup', this.handlePointerUp);
+    this.base.addEventListener('pointercancel', this.handlePointerUp);
+  }
+
+  // Whether the device has a touch screen and should show the joystick
+  static isSupported(): boolean {
+    return 'ontouchstart' in window || navigator.maxTouchPoints > 0;
+  }
+
+  // Get the current deflection (x = right, y = forward), length <= 1
+  getValue(): THREE.Vector2 {
+    return this.value.clone();
+  }
+
+  reset(): void {
+    this.activePointerId = null;
+    this.value.set(0, 0);
+    this.knob.style.transform = 'translate(-50%, -50%)';
+  }
+
+  setVisible(visible: boolean): void {
+    this.base.style.display = visible ? 'block' : 'none';
+    if (!visible) {
+      this.reset();
+    }
+  }
+
+  dispose(): void {
+    this.base.remove();
+  }
+
+  private handlePointerDown = (event: PointerEvent): void => {
+    if (this.activePointerId !== null) return;
+    this.activePointerId = event.pointerId;
+    this.base.setPointerCapture(event.pointerId);
+
+    const rect = this.base.getBoundingClientRect();
+    this.center.set(rect.left + rect.width / 2, rect.top + rect.height / 2);
+    this.updateValue(event);
+  };
+
+  private handlePointerMove = (event: PointerEvent): void => {
+    if (event.pointerId !== this.activePointerId) return;
+    this.updateValue(event);
+  };
+
+  private handlePointerUp = (event: PointerEvent): void => {
+    if (event.pointerId !== this.activePointerId) return;
+    this.reset();
+  };
+
+  private updateValue(event: PointerEvent): void {
+    // Offset from the center, clamped to the base radius
+    const offset = new THREE.Vector2(event.clientX - this.center.x, event.clientY - this.center.y);
+    if (offset.length() > this.radius) {
+      offset.setLength(this.radius);
+    }
+
+    this.knob.style.transform = `translate(calc(-50% + ${offset.x}px), calc(-50% + ${offset.y}px))`;
+
+    // Screen y points down, forward is up
+    this.value.set(offset.x / this.radius, -offset.y / this.radius);
+  }
+}